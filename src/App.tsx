@@ -1,51 +1,81 @@
 import { VirtualizedTable } from "@/components/ui/table";
+import { createColumns } from "@/components/ui/table/columns";
 import useViewportScale from "@/hooks/useViewportScale";
-import { fetchData } from "@/services/data.service";
-import { useGlobalStore, userGlobalDispatch } from "@/stores/global.store";
+import { fetchData, saveUsers } from "@/services/data.service";
 import type { User } from "@/type/user";
-import type { ColumnDef } from "@tanstack/react-table";
+import type { ColumnDef, VisibilityState } from "@tanstack/react-table";
 import { useMemo } from "react";
 
+// Column visibility the demo persisted before `stateKey`, it seeds the table
+// until the table has saved state of its own
+const LEGACY_STORE_KEY = "VDwqVtPbjI8v/jWe+XIbWA==";
+
+function readLegacyColumnVisibility(): VisibilityState | undefined {
+    try {
+        const stored = localStorage.getItem(LEGACY_STORE_KEY);
+        return stored ? JSON.parse(stored).columnVisibility : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+const legacyColumnVisibility = readLegacyColumnVisibility();
+
+const languageOptions: SelectOption[] = [
+    "Galician",
+    "Icelandic",
+    "isiZulu",
+    "Maltese",
+    "Sesotho sa Leboa",
+    "Sindhi",
+    "Uyghur",
+].map((language) => ({ label: language, value: language }));
+
 const App = () => {
     // [SETUPS]
     useViewportScale(1280, 0.75, 7.5);
 
     // [STATES]
-    const columnVisibility = useGlobalStore((store) => store.columnVisibility);
-    const globalDispatch = userGlobalDispatch();
-    const userColumns = useMemo<ColumnDef<User>[]>(
-        () => [
-            { accessorKey: "id", header: "ID", sortingFn: "text", size: 180 },
-            {
-                accessorKey: "bio",
-                header: "Bio",
-                size: 320,
-            },
-            { accessorKey: "name", header: "Name" },
-            { accessorKey: "language", header: "Language" },
-            { accessorKey: "version", header: "Version", size: 100 },
-            {
-                accessorKey: "state",
+    const userColumns = useMemo<ColumnDef<User>[]>(() => {
+        const column = createColumns<User>({ locale: "en-US" });
+        return [
+            column.text("id", {
+                header: "ID",
+                size: 180,
+                aggregationFn: "count",
+                meta: { footerAggregate: "count" },
+            }),
+            column.truncated("bio", { header: "Bio", size: 320 }),
+            column.text("name", { header: "Name", meta: { editable: true } }),
+            column.badge("language", {
+                header: "Language",
+                // Server filtering can't list the values from loaded rows
+                meta: {
+                    filterOptions: languageOptions,
+                    footerAggregate: "distinct",
+                },
+            }),
+            column.number("version", {
+                header: "Version",
+                size: 160,
+                aggregationFn: "avg",
+                meta: {
+                    editable: true,
+                    footerAggregate: "avg",
+                    footerSource: "server",
+                },
+            }),
+            column.text("state", {
                 header: "State",
-                cell: () => <span>Los Angeles</span>,
-            },
-            {
-                accessorKey: "createdDate",
+                enableColumnFilter: false,
+            }),
+            column.date("createdDate", {
                 header: "Created Date",
-                sortingFn: "datetime",
-                cell: () => (
-                    <span className="text-nowrap">
-                        {new Date().toLocaleDateString("en-US", {
-                            year: "numeric",
-                            month: "long",
-                            day: "numeric",
-                        })}
-                    </span>
-                ),
-            },
-        ],
-        []
-    );
+                format: { year: "numeric", month: "long", day: "numeric" },
+                enableColumnFilter: false,
+            }),
+        ];
+    }, []);
 
     // [RENDERS]
     return (
@@ -54,13 +84,20 @@ const App = () => {
                 columns={userColumns}
                 queryKey={["users"]}
                 fetchFn={fetchData}
+                sortingMode="server"
+                filteringMode="server"
+                rowKey="id"
+                enableEditing
+                onCommit={saveUsers}
                 containerHeight={560}
-                initColumnVisibility={columnVisibility}
-                onColumnVisibilityChange={(visibility) => {
-                    globalDispatch(
-                        (store) => (store.columnVisibility = visibility)
-                    );
-                }}
+                enableGrouping
+                renderDetail={(row) => (
+                    <p className="whitespace-pre-wrap">{row.original.bio}</p>
+                )}
+                initialColumnPinning={{ left: ["id"], right: [] }}
+                initColumnVisibility={legacyColumnVisibility}
+                stateKey="users-table"
+                enableUrlSync
             />
         </div>
     );
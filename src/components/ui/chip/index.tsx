@@ -0,0 +1,45 @@
+import { IconClose } from "@/icons";
+import { clsx } from "@/utils/string.util";
+
+const chipVariantClassNames: Record<
+    NonNullable<ChipProps["variant"]>,
+    string
+> = {
+    neutral: "bg-gray-100 text-gray-700",
+    info: "bg-blue-100 text-blue-700",
+    success: "bg-green-100 text-green-700",
+    error: "bg-red-100 text-red-700",
+    warning: "bg-amber-100 text-amber-800",
+};
+
+export function Chip({
+    className,
+    variant = "neutral",
+    onRemove,
+    label,
+    children,
+    ...props
+}: ChipProps) {
+    return (
+        <div
+            className={clsx(
+                "inline-flex items-center gap-1 max-w-full px-2 py-0.5 text-xs font-medium rounded-full",
+                chipVariantClassNames[variant],
+                className
+            )}
+            {...props}
+        >
+            <span className="truncate">{label ?? children}</span>
+            {onRemove && (
+                <button
+                    type="button"
+                    onClick={() => onRemove(label)}
+                    className="shrink-0 rounded-full opacity-60 hover:opacity-100 cursor-pointer focus:outline-none focus:ring-2 focus:ring-current"
+                    aria-label={`Remove ${label ?? ""}`.trim()}
+                >
+                    <IconClose className="w-3 h-3" aria-hidden="true" />
+                </button>
+            )}
+        </div>
+    );
+}
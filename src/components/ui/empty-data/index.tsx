@@ -0,0 +1,34 @@
+import { IconAllInbox } from "@/icons";
+import { clsx } from "@/utils/string.util";
+
+export function EmptyData({
+    placeholder = "No data",
+    className,
+    icon,
+    useDefaultIcon = true,
+    defaultIconClassName,
+    children,
+}: EmptyDataProps) {
+    return (
+        <div
+            className={clsx(
+                "flex flex-col items-center justify-center gap-2 p-8 text-center",
+                className
+            )}
+            role="status"
+        >
+            {icon ??
+                (useDefaultIcon && (
+                    <IconAllInbox
+                        className={clsx(
+                            "w-10 h-10 text-gray-300",
+                            defaultIconClassName
+                        )}
+                        aria-hidden="true"
+                    />
+                ))}
+            <p className="text-sm text-gray-500">{placeholder}</p>
+            {children}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import React from "react";
+import { clsx } from "@/utils/string.util";
+
+const editorClassName = clsx(
+    "w-full min-w-0 px-1.5 py-0.5 text-xs text-gray-900 bg-white",
+    "border border-blue-500 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+);
+
+function toEditorValue(value: unknown, editor: CellEditorType): string {
+    if (value === undefined || value === null) return "";
+    if (editor === "date") {
+        const date = new Date(value as string | number);
+        if (isNaN(date.getTime())) return "";
+        // Date inputs expect the local yyyy-mm-dd day
+        const offset = date.getTimezoneOffset() * 60 * 1000;
+        return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+    }
+    return String(value);
+}
+
+function fromEditorValue(value: string, editor: CellEditorType): unknown {
+    if (editor === "number") return value.trim() === "" ? null : Number(value);
+    return value;
+}
+
+export function CellEditor({
+    value,
+    editor,
+    options = [],
+    columnName,
+    onCommit,
+    onCancel,
+}: {
+    value: unknown;
+    editor: CellEditorType;
+    options?: SelectOption[];
+    columnName: string;
+    onCommit: (value: unknown) => void;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = React.useState(() =>
+        toEditorValue(value, editor)
+    );
+
+    const commit = (nextDraft: string = draft) => {
+        const nextValue = fromEditorValue(nextDraft, editor);
+        if (editor === "number" && Number.isNaN(nextValue)) return onCancel();
+        onCommit(nextValue);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        // Keep editing keys away from table shortcuts
+        event.stopPropagation();
+        if (event.key === "Enter") {
+            event.preventDefault();
+            commit();
+        } else if (event.key === "Escape") {
+            event.preventDefault();
+            onCancel();
+        }
+    };
+
+    if (editor === "boolean") {
+        return (
+            <input
+                type="checkbox"
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                checked={Boolean(value)}
+                onChange={(e) => onCommit(e.target.checked)}
+                onBlur={onCancel}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                aria-label={`Edit ${columnName}`}
+            />
+        );
+    }
+
+    if (editor === "select") {
+        return (
+            <select
+                className={editorClassName}
+                value={draft}
+                onChange={(e) => {
+                    setDraft(e.target.value);
+                    commit(e.target.value);
+                }}
+                onBlur={() => commit()}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                aria-label={`Edit ${columnName}`}
+            >
+                {!options.some((option) => option.value === draft) && (
+                    <option value={draft}>{draft}</option>
+                )}
+                {options.map((option) => (
+                    <option key={option.value} value={option.value}>
+                        {option.label}
+                    </option>
+                ))}
+            </select>
+        );
+    }
+
+    return (
+        <input
+            type={editor === "text" ? "text" : editor}
+            className={editorClassName}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => commit()}
+            onKeyDown={handleKeyDown}
+            autoFocus
+            aria-label={`Edit ${columnName}`}
+        />
+    );
+}
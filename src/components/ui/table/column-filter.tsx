@@ -0,0 +1,348 @@
+import React from "react";
+import type { Column } from "@tanstack/react-table";
+import { IconArrowDown, IconClose } from "@/icons";
+import useDebouncedState from "@/hooks/useDebouncedState";
+import { isFilterValueEmpty } from "@/utils/filter.util";
+import { clsx } from "@/utils/string.util";
+
+const inputClassName = clsx(
+    "w-full min-w-0 px-2 py-1 text-xs font-normal text-gray-900 bg-white",
+    "border border-gray-300 rounded placeholder:text-gray-400",
+    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+);
+
+function toRangeInputValue(range?: NumberRangeFilterValue): [string, string] {
+    return [range?.[0]?.toString() ?? "", range?.[1]?.toString() ?? ""];
+}
+
+function toRangeNumber(value: string) {
+    return value.trim() === "" || isNaN(Number(value))
+        ? undefined
+        : Number(value);
+}
+
+export function ColumnFilter<T>({
+    column,
+    columnName,
+    isServerFiltering = false,
+}: {
+    column: Column<T, unknown>;
+    columnName: string;
+    isServerFiltering?: boolean;
+}) {
+    const variant = column.columnDef.meta?.filterVariant ?? "text";
+
+    switch (variant) {
+        case "number":
+            return (
+                <NumberRangeFilter column={column} columnName={columnName} />
+            );
+        case "enum":
+            return (
+                <EnumFilter
+                    column={column}
+                    columnName={columnName}
+                    isServerFiltering={isServerFiltering}
+                />
+            );
+        case "date":
+            return <DateRangeFilter column={column} columnName={columnName} />;
+        default:
+            return <TextFilter column={column} columnName={columnName} />;
+    }
+}
+
+function TextFilter<T>({
+    column,
+    columnName,
+}: {
+    column: Column<T, unknown>;
+    columnName: string;
+}) {
+    const filterValue = (column.getFilterValue() as string) ?? "";
+    const [value, setValue, debouncedValue, resetValue] = useDebouncedState(
+        filterValue,
+        {
+            onDebounce: (nextValue) =>
+                column.setFilterValue(nextValue.trim() ? nextValue : undefined),
+        }
+    );
+
+    // Sync with filters cleared or restored from outside
+    React.useEffect(() => {
+        const committedValue = debouncedValue.trim() ? debouncedValue : "";
+        if (filterValue !== committedValue) resetValue(filterValue);
+    }, [filterValue, debouncedValue, resetValue]);
+
+    return (
+        <div className="relative w-full">
+            <input
+                type="text"
+                className={clsx(inputClassName, "pr-6")}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={
+                    column.columnDef.meta?.filterPlaceholder ?? "Contains..."
+                }
+                aria-label={`Filter ${columnName} column`}
+            />
+            {value && (
+                <button
+                    type="button"
+                    className="absolute right-1 top-1/2 -translate-y-1/2 rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    onClick={() => setValue("", true)}
+                    aria-label={`Clear ${columnName} filter`}
+                >
+                    <IconClose className="w-3.5 h-3.5" aria-hidden="true" />
+                </button>
+            )}
+        </div>
+    );
+}
+
+function NumberRangeFilter<T>({
+    column,
+    columnName,
+}: {
+    column: Column<T, unknown>;
+    columnName: string;
+}) {
+    const filterValue = column.getFilterValue() as
+        | NumberRangeFilterValue
+        | undefined;
+    const [value, setValue, debouncedValue, resetValue] = useDebouncedState(
+        toRangeInputValue(filterValue),
+        {
+            onDebounce: ([min, max]) => {
+                const range: NumberRangeFilterValue = [
+                    toRangeNumber(min),
+                    toRangeNumber(max),
+                ];
+                column.setFilterValue(
+                    isFilterValueEmpty(range) ? undefined : range
+                );
+            },
+        }
+    );
+
+    // Sync with filters cleared or restored from outside
+    React.useEffect(() => {
+        const [min, max] = debouncedValue;
+        if (
+            filterValue?.[0] !== toRangeNumber(min) ||
+            filterValue?.[1] !== toRangeNumber(max)
+        ) {
+            resetValue(toRangeInputValue(filterValue));
+        }
+    }, [filterValue, debouncedValue, resetValue]);
+
+    return (
+        <div
+            className="flex items-center gap-1 w-full"
+            role="group"
+            aria-label={`Filter ${columnName} column by range`}
+        >
+            <input
+                type="number"
+                className={inputClassName}
+                value={value[0]}
+                onChange={(e) => setValue([e.target.value, value[1]])}
+                placeholder="Min"
+                aria-label={`Minimum ${columnName}`}
+            />
+            <input
+                type="number"
+                className={inputClassName}
+                value={value[1]}
+                onChange={(e) => setValue([value[0], e.target.value])}
+                placeholder="Max"
+                aria-label={`Maximum ${columnName}`}
+            />
+        </div>
+    );
+}
+
+function DateRangeFilter<T>({
+    column,
+    columnName,
+}: {
+    column: Column<T, unknown>;
+    columnName: string;
+}) {
+    const [from, to] =
+        (column.getFilterValue() as DateRangeFilterValue | undefined) ?? [];
+
+    const handleChange = (range: DateRangeFilterValue) => {
+        column.setFilterValue(isFilterValueEmpty(range) ? undefined : range);
+    };
+
+    return (
+        <div
+            className="flex items-center gap-1 w-full"
+            role="group"
+            aria-label={`Filter ${columnName} column by date range`}
+        >
+            <input
+                type="date"
+                className={inputClassName}
+                value={from ?? ""}
+                max={to}
+                onChange={(e) => handleChange([e.target.value, to])}
+                aria-label={`${columnName} from`}
+            />
+            <input
+                type="date"
+                className={inputClassName}
+                value={to ?? ""}
+                min={from}
+                onChange={(e) => handleChange([from, e.target.value])}
+                aria-label={`${columnName} to`}
+            />
+        </div>
+    );
+}
+
+function EnumFilter<T>({
+    column,
+    columnName,
+    isServerFiltering,
+}: {
+    column: Column<T, unknown>;
+    columnName: string;
+    isServerFiltering: boolean;
+}) {
+    const [expand, setExpand] = React.useState(false);
+    const selectedValues =
+        (column.getFilterValue() as EnumFilterValue | undefined) ?? [];
+
+    // Fall back to the values of loaded rows when no options are declared.
+    // The server already filtered those, so server filtering only lists the
+    // selected values
+    const declaredOptions = column.columnDef.meta?.filterOptions;
+    const options: SelectOption[] =
+        declaredOptions ??
+        (isServerFiltering
+            ? selectedValues
+            : Array.from(column.getFacetedUniqueValues().keys())
+                  .filter((value) => value !== undefined && value !== null)
+                  .map(String)
+        )
+            .map((value) => ({ label: value, value }))
+            .sort((a, b) => a.label.localeCompare(b.label));
+
+    // Close options when clicking outside
+    React.useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (expand && target?.closest("[data-column-filter]") === null) {
+                setExpand(false);
+            }
+        };
+
+        document.addEventListener("mousedown", handleClickOutside);
+        return () =>
+            document.removeEventListener("mousedown", handleClickOutside);
+    }, [expand]);
+
+    const toggleValue = (value: string) => {
+        const nextValues = selectedValues.includes(value)
+            ? selectedValues.filter((selected) => selected !== value)
+            : [...selectedValues, value];
+        column.setFilterValue(nextValues.length ? nextValues : undefined);
+    };
+
+    return (
+        <div
+            className="relative w-full"
+            data-column-filter
+            onKeyDown={(e) => {
+                if (e.key === "Escape" && expand) {
+                    e.stopPropagation();
+                    setExpand(false);
+                }
+            }}
+        >
+            <button
+                type="button"
+                className={clsx(
+                    inputClassName,
+                    "flex items-center justify-between text-left cursor-pointer"
+                )}
+                onClick={() => setExpand(!expand)}
+                aria-expanded={expand}
+                aria-haspopup="listbox"
+                aria-label={`Filter ${columnName} column, ${
+                    selectedValues.length
+                        ? `${selectedValues.length} selected`
+                        : "all values"
+                }`}
+            >
+                <span
+                    className={clsx("truncate", {
+                        "text-gray-400": !selectedValues.length,
+                    })}
+                >
+                    {selectedValues.length
+                        ? selectedValues.join(", ")
+                        : column.columnDef.meta?.filterPlaceholder ?? "All"}
+                </span>
+                <IconArrowDown
+                    className={clsx(
+                        "w-4 h-4 shrink-0 transition-transform duration-250",
+                        { "-rotate-180": expand }
+                    )}
+                    aria-hidden="true"
+                />
+            </button>
+            {expand && (
+                <div
+                    className="absolute left-0 mt-1 w-full min-w-40 bg-white rounded-md shadow-lg border border-gray-200 z-50"
+                    role="listbox"
+                    aria-multiselectable="true"
+                    aria-label={`${columnName} options`}
+                >
+                    <div className="py-1 max-h-56 overflow-y-auto">
+                        {options.length === 0 && (
+                            <div className="px-3 py-2 text-xs text-gray-500">
+                                {isServerFiltering
+                                    ? "No options, declare meta.filterOptions"
+                                    : "No options"}
+                            </div>
+                        )}
+                        {options.map((option) => (
+                            <label
+                                key={option.value}
+                                className="flex items-center px-3 py-1.5 hover:bg-gray-50 cursor-pointer"
+                                role="option"
+                                aria-selected={selectedValues.includes(
+                                    option.value
+                                )}
+                            >
+                                <input
+                                    type="checkbox"
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                                    checked={selectedValues.includes(
+                                        option.value
+                                    )}
+                                    onChange={() => toggleValue(option.value)}
+                                />
+                                <span className="text-xs font-normal text-gray-700">
+                                    {option.label}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    {selectedValues.length > 0 && (
+                        <button
+                            type="button"
+                            className="w-full px-3 py-2 text-xs text-center text-red-600 border-t border-gray-100 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-red-500"
+                            onClick={() => column.setFilterValue(undefined)}
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
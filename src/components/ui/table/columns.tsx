@@ -0,0 +1,301 @@
+import type {
+    AccessorKeyColumnDef,
+    CellContext,
+    ColumnDef,
+    SortingFn,
+} from "@tanstack/react-table";
+import { Chip } from "@/components/ui/chip";
+import { getColumnFilterFn, toTimestamp } from "@/utils/filter.util";
+import { isNil } from "@/utils/object.util";
+
+type ColumnKey<T> = Extract<keyof T, string>;
+// Everything a hand-written column takes, except what the preset renders
+type ColumnOptions<T> = Omit<AccessorKeyColumnDef<T>, "accessorKey" | "cell">;
+
+// Missing and invalid dates sort first
+function dateSortingFn<T>(): SortingFn<T> {
+    return (rowA, rowB, columnId) => {
+        const timeA = toTimestamp(rowA.getValue(columnId));
+        const timeB = toTimestamp(rowB.getValue(columnId));
+        if (timeA === undefined || timeB === undefined) {
+            if (timeA === timeB) return 0;
+            return timeA === undefined ? -1 : 1;
+        }
+        return timeA - timeB;
+    };
+}
+
+function defineColumn<T>(
+    key: ColumnKey<T>,
+    preset: Omit<AccessorKeyColumnDef<T>, "accessorKey">,
+    options: ColumnOptions<T> = {}
+): AccessorKeyColumnDef<T> {
+    return {
+        ...preset,
+        ...options,
+        accessorKey: key,
+        meta: { ...preset.meta, ...options.meta },
+    };
+}
+
+// Empty cells stay blank instead of showing "NaN" or "Invalid Date"
+function formattedCell<T>(format: (value: unknown) => string | undefined) {
+    return ({ getValue }: CellContext<T, unknown>) => {
+        const value = getValue();
+        return isNil(value) || value === "" ? "" : format(value) ?? "";
+    };
+}
+
+function numericCell<T>(formatter: Intl.NumberFormat) {
+    const format = formattedCell<T>((value) =>
+        isNaN(Number(value)) ? String(value) : formatter.format(Number(value))
+    );
+    return (context: CellContext<T, unknown>) => (
+        <span className="ml-auto tabular-nums">{format(context)}</span>
+    );
+}
+
+// Typed column presets, each with the cell, sorting and filter that fit the
+// value, e.g. `createColumns<User>().number("version", { header: "Version" })`
+export function createColumns<T>({ locale }: { locale?: string } = {}) {
+    const numberColumn = (
+        key: ColumnKey<T>,
+        format: Intl.NumberFormatOptions,
+        options?: ColumnOptions<T>
+    ) =>
+        defineColumn<T>(
+            key,
+            {
+                cell: numericCell<T>(new Intl.NumberFormat(locale, format)),
+                sortingFn: "basic",
+                filterFn: getColumnFilterFn<T>("number"),
+                meta: { filterVariant: "number", editor: "number" },
+            },
+            options
+        );
+
+    const dateColumn = (
+        key: ColumnKey<T>,
+        format: Intl.DateTimeFormatOptions,
+        options?: ColumnOptions<T>
+    ) => {
+        const formatter = new Intl.DateTimeFormat(locale, format);
+        return defineColumn<T>(
+            key,
+            {
+                cell: formattedCell<T>((value) => {
+                    const time = toTimestamp(value);
+                    return time === undefined ? "" : formatter.format(time);
+                }),
+                sortingFn: dateSortingFn<T>(),
+                filterFn: getColumnFilterFn<T>("date"),
+                meta: { filterVariant: "date", editor: "date" },
+            },
+            options
+        );
+    };
+
+    const textColumn = (
+        key: ColumnKey<T>,
+        cell: ColumnDef<T>["cell"],
+        options?: ColumnOptions<T>
+    ) =>
+        defineColumn<T>(
+            key,
+            {
+                cell,
+                sortingFn: "text",
+                filterFn: getColumnFilterFn<T>("text"),
+                meta: { filterVariant: "text", editor: "text" },
+            },
+            options
+        );
+
+    return {
+        text: (key: ColumnKey<T>, options?: ColumnOptions<T>) =>
+            textColumn(key, formattedCell<T>(String), options),
+
+        // Long text on one line, the full value shows on hover
+        truncated: (key: ColumnKey<T>, options?: ColumnOptions<T>) =>
+            textColumn(
+                key,
+                ({ getValue }) => {
+                    const value = getValue();
+                    const text = isNil(value) ? "" : String(value);
+                    return (
+                        <span className="block min-w-0 truncate" title={text}>
+                            {text}
+                        </span>
+                    );
+                },
+                options
+            ),
+
+        link: (
+            key: ColumnKey<T>,
+            {
+                href,
+                external = false,
+                ...options
+            }: ColumnOptions<T> & {
+                href: (row: T) => string | undefined;
+                // Opens in a new tab
+                external?: boolean;
+            }
+        ) =>
+            textColumn(
+                key,
+                ({ getValue, row }) => {
+                    const value = getValue();
+                    const url = href(row.original);
+                    if (isNil(value) || value === "") return "";
+                    if (!url) return String(value);
+                    return (
+                        <a
+                            href={url}
+                            className="truncate text-blue-600 underline hover:text-blue-800"
+                            {...(external && {
+                                target: "_blank",
+                                rel: "noopener noreferrer",
+                            })}
+                        >
+                            {String(value)}
+                        </a>
+                    );
+                },
+                options
+            ),
+
+        number: (
+            key: ColumnKey<T>,
+            {
+                format,
+                ...options
+            }: ColumnOptions<T> & { format?: Intl.NumberFormatOptions } = {}
+        ) => numberColumn(key, format ?? {}, options),
+
+        currency: (
+            key: ColumnKey<T>,
+            {
+                currency = "USD",
+                format,
+                ...options
+            }: ColumnOptions<T> & {
+                currency?: string;
+                format?: Intl.NumberFormatOptions;
+            } = {}
+        ) =>
+            numberColumn(
+                key,
+                { style: "currency", currency, ...format },
+                options
+            ),
+
+        // Values are fractions, 0.25 renders as 25%
+        percent: (
+            key: ColumnKey<T>,
+            {
+                format,
+                ...options
+            }: ColumnOptions<T> & { format?: Intl.NumberFormatOptions } = {}
+        ) =>
+            numberColumn(
+                key,
+                { style: "percent", maximumFractionDigits: 1, ...format },
+                options
+            ),
+
+        date: (
+            key: ColumnKey<T>,
+            {
+                format,
+                ...options
+            }: ColumnOptions<T> & { format?: Intl.DateTimeFormatOptions } = {}
+        ) => dateColumn(key, format ?? { dateStyle: "medium" }, options),
+
+        datetime: (
+            key: ColumnKey<T>,
+            {
+                format,
+                ...options
+            }: ColumnOptions<T> & { format?: Intl.DateTimeFormatOptions } = {}
+        ) =>
+            dateColumn(
+                key,
+                format ?? { dateStyle: "medium", timeStyle: "short" },
+                options
+            ),
+
+        boolean: (
+            key: ColumnKey<T>,
+            {
+                trueLabel = "Yes",
+                falseLabel = "No",
+                ...options
+            }: ColumnOptions<T> & {
+                trueLabel?: string;
+                falseLabel?: string;
+            } = {}
+        ) =>
+            defineColumn<T>(
+                key,
+                {
+                    cell: formattedCell<T>((value) =>
+                        value ? trueLabel : falseLabel
+                    ),
+                    sortingFn: "basic",
+                    // The enum filter matches the stringified value
+                    filterFn: getColumnFilterFn<T>("enum"),
+                    meta: {
+                        filterVariant: "enum",
+                        filterOptions: [
+                            { label: trueLabel, value: "true" },
+                            { label: falseLabel, value: "false" },
+                        ],
+                        editor: "boolean",
+                    },
+                },
+                options
+            ),
+
+        // Enum values as chips, `variants` colors them and lists the filter
+        // options, unlisted values are neutral
+        badge: (
+            key: ColumnKey<T>,
+            {
+                variants,
+                ...options
+            }: ColumnOptions<T> & {
+                variants?: Record<string, ChipProps["variant"]>;
+            } = {}
+        ) => {
+            const variantOptions =
+                variants &&
+                Object.keys(variants).map((value) => ({ label: value, value }));
+            return defineColumn<T>(
+                key,
+                {
+                    cell: ({ getValue }) => {
+                        const value = getValue();
+                        if (isNil(value) || value === "") return "";
+                        return (
+                            <Chip
+                                label={String(value)}
+                                variant={variants?.[String(value)] ?? "neutral"}
+                            />
+                        );
+                    },
+                    sortingFn: "text",
+                    filterFn: getColumnFilterFn<T>("enum"),
+                    meta: {
+                        filterVariant: "enum",
+                        filterOptions: variantOptions,
+                        editor: variantOptions ? "select" : "text",
+                        editorOptions: variantOptions,
+                    },
+                },
+                options
+            );
+        },
+    };
+}
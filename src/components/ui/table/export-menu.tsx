@@ -0,0 +1,205 @@
+import React from "react";
+import { IconArrowDown, IconClose } from "@/icons";
+import { exportFormats } from "@/utils/export.util";
+import { clsx } from "@/utils/string.util";
+
+const exportScopes: { scope: TableExportScope; label: string }[] = [
+    { scope: "selected", label: "Selected rows" },
+    { scope: "loaded", label: "Loaded rows" },
+    { scope: "all", label: "All rows" },
+];
+
+export function TableExportMenu({
+    rowCounts,
+    progress,
+    error,
+    onExport,
+    onCancel,
+    onDismissError,
+}: {
+    // Undefined when the number of rows is unknown
+    rowCounts: Record<TableExportScope, number | undefined>;
+    progress: TableExportProgress | null;
+    error: string | null;
+    onExport: (format: TableExportFormat, scope: TableExportScope) => void;
+    onCancel: () => void;
+    onDismissError: () => void;
+}) {
+    const scopeName = React.useId();
+    const [expand, setExpand] = React.useState(false);
+    const [scope, setScope] = React.useState<TableExportScope>(
+        rowCounts.selected ? "selected" : "loaded"
+    );
+    // Fall back when the selection is cleared while the menu is closed
+    const activeScope =
+        scope === "selected" && rowCounts.selected === 0 ? "loaded" : scope;
+
+    // Close the menu when clicking outside
+    React.useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (expand && target?.closest("[data-export-menu]") === null) {
+                setExpand(false);
+            }
+        };
+
+        document.addEventListener("mousedown", handleClickOutside);
+        return () =>
+            document.removeEventListener("mousedown", handleClickOutside);
+    }, [expand]);
+
+    if (progress) {
+        const { loadedRowCount, totalRowCount } = progress;
+        const percent = totalRowCount
+            ? Math.min(100, Math.round((loadedRowCount / totalRowCount) * 100))
+            : undefined;
+
+        return (
+            <div
+                className="flex items-center gap-2 text-xs text-gray-700"
+                role="status"
+                aria-live="polite"
+            >
+                <div
+                    className="w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden"
+                    role="progressbar"
+                    aria-label="Export progress"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={percent}
+                >
+                    <div
+                        className={clsx("h-full bg-blue-600 rounded-full", {
+                            "animate-pulse w-full": percent === undefined,
+                        })}
+                        style={
+                            percent !== undefined
+                                ? { width: `${percent}%` }
+                                : undefined
+                        }
+                    />
+                </div>
+                <span>
+                    Exporting {loadedRowCount.toLocaleString()}
+                    {totalRowCount !== undefined &&
+                        ` / ${totalRowCount.toLocaleString()}`}{" "}
+                    rows
+                </span>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="text-xs text-red-600 hover:text-red-800 underline rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                    Cancel
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="relative flex items-center gap-2"
+            data-export-menu
+            onKeyDown={(e) => {
+                if (e.key === "Escape" && expand) {
+                    e.stopPropagation();
+                    setExpand(false);
+                }
+            }}
+        >
+            {error && (
+                <div
+                    className="inline-flex items-center gap-1 text-xs text-red-700"
+                    role="alert"
+                >
+                    <span>Export failed: {error}</span>
+                    <button
+                        type="button"
+                        className="rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-red-500"
+                        onClick={onDismissError}
+                        aria-label="Dismiss export error"
+                    >
+                        <IconClose className="w-3.5 h-3.5" aria-hidden="true" />
+                    </button>
+                </div>
+            )}
+            <button
+                type="button"
+                onClick={() => setExpand(!expand)}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer"
+                aria-expanded={expand}
+                aria-haspopup="true"
+                aria-label="Export table data"
+            >
+                Export
+                <IconArrowDown
+                    className={clsx(
+                        "w-4 h-4 ml-1 transition-transform duration-250",
+                        { "-rotate-180": expand }
+                    )}
+                    aria-hidden="true"
+                />
+            </button>
+            {expand && (
+                <div
+                    className="absolute right-0 top-full mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-50"
+                    role="menu"
+                    aria-label="Export options"
+                >
+                    <fieldset className="py-2 border-b border-gray-100">
+                        <legend className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                            Rows
+                        </legend>
+                        {exportScopes.map(({ scope: option, label }) => {
+                            const rowCount = rowCounts[option];
+                            return (
+                                <label
+                                    key={option}
+                                    className={clsx(
+                                        "flex items-center px-3 py-1.5 hover:bg-gray-50 cursor-pointer",
+                                        {
+                                            "opacity-50 cursor-not-allowed":
+                                                rowCount === 0,
+                                        }
+                                    )}
+                                >
+                                    <input
+                                        type="radio"
+                                        name={scopeName}
+                                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 mr-2"
+                                        checked={activeScope === option}
+                                        disabled={rowCount === 0}
+                                        onChange={() => setScope(option)}
+                                    />
+                                    <span className="text-xs text-gray-700">
+                                        {label}
+                                        {rowCount !== undefined &&
+                                            ` (${rowCount.toLocaleString()})`}
+                                    </span>
+                                </label>
+                            );
+                        })}
+                    </fieldset>
+                    <div className="py-1">
+                        {(
+                            Object.keys(exportFormats) as TableExportFormat[]
+                        ).map((format) => (
+                            <button
+                                key={format}
+                                type="button"
+                                role="menuitem"
+                                className="w-full px-3 py-2 text-xs text-left text-gray-700 hover:bg-gray-50 focus:outline-none focus:bg-gray-50 cursor-pointer"
+                                onClick={() => {
+                                    setExpand(false);
+                                    onExport(format, activeScope);
+                                }}
+                            >
+                                {exportFormats[format].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
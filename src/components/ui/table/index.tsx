@@ -1,20 +1,117 @@
 import React from "react";
 import {
+    type Cell,
+    type Column,
+    type ColumnFiltersState,
+    type ColumnOrderState,
+    type ColumnPinningState,
+    type ColumnSizingState,
     flexRender,
     getCoreRowModel,
+    getFacetedRowModel,
+    getFacetedUniqueValues,
     getFilteredRowModel,
+    getExpandedRowModel,
+    getGroupedRowModel,
     getSortedRowModel,
+    type ExpandedState,
+    type GroupingState,
+    type Header,
+    type HeaderGroup,
     type OnChangeFn,
+    type PaginationState,
     type Row,
-    type RowSelectionState,
     type SortingState,
     type VisibilityState,
     useReactTable,
 } from "@tanstack/react-table";
-import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import {
+    type InfiniteData,
+    keepPreviousData,
+    useInfiniteQuery,
+    useMutation,
+    useQuery,
+    useQueryClient,
+} from "@tanstack/react-query";
 import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+    IconArrowDown,
+    IconClose,
+    IconGroup,
+    IconSearch,
+    IconTune,
+} from "@/icons";
+import useDebouncedState from "@/hooks/useDebouncedState";
+import useTableSelection from "@/hooks/useTableSelection";
+import useTableExport from "@/hooks/useTableExport";
+import useCellRange from "@/hooks/useCellRange";
+import useColumnDrag from "@/hooks/useColumnDrag";
+import useTableViews from "@/hooks/useTableViews";
+import useTableUrlSync from "@/hooks/useTableUrlSync";
+import { ColumnFilter } from "@/components/ui/table/column-filter";
+import { TablePagination } from "@/components/ui/table/pagination";
+import { CellEditor } from "@/components/ui/table/cell-editor";
+import { TableExportMenu } from "@/components/ui/table/export-menu";
+import { TableViewsMenu } from "@/components/ui/table/views-menu";
+import { EmptyData } from "@/components/ui/empty-data";
+import createDataStore from "@/providers/data.provider";
+import {
+    coercePastedValue,
+    inferCellEditor,
+    parseClipboardText,
+    toClipboardHtml,
+    toClipboardText,
+} from "@/utils/clipboard.util";
+import {
+    clampColumnSize,
+    getColumnLabel,
+    getLeafColumnDefIds,
+    getPinnedColumnStyle,
+    getRootFontScale,
+    measureColumnWidths,
+    moveColumnId,
+} from "@/utils/column.util";
+import { applyClientQuery } from "@/utils/export.util";
+import { readTableUrlState } from "@/utils/url.util";
+import { getGlobalFilterFn, withColumnFilterFns } from "@/utils/filter.util";
+import {
+    footerAggregateLabels,
+    formatAggregatedValue,
+    getFooterAggregate,
+    getTableAggregationFns,
+} from "@/utils/group.util";
+import {
+    adjustCachedTotal,
+    getNextTablePageParam,
+    initialTablePageParam,
+    mapCachedPages,
+} from "@/utils/query.util";
 import { clsx, pxToRem } from "@/utils/string.util";
 
+const columnMoveButtonClassName = clsx(
+    "px-1.5 py-0.5 text-sm text-gray-500 rounded cursor-pointer hover:text-gray-900 hover:bg-gray-100",
+    "focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-30 disabled:cursor-not-allowed"
+);
+const columnPinButtonClassName = clsx(
+    columnMoveButtonClassName,
+    "aria-pressed:text-blue-600 aria-pressed:bg-blue-50"
+);
+
+// Shadows mark where pinned columns meet the scrolling ones
+const pinnedEdgeClassNames = {
+    left: "shadow-[4px_0_6px_-4px_rgba(0,0,0,0.2)]",
+    right: "shadow-[-4px_0_6px_-4px_rgba(0,0,0,0.2)]",
+};
+
+type MutationContext = {
+    mutationQueryKey: unknown[];
+    // Undoes the mutation's own patch on the current cache
+    rollback: (cached: unknown) => unknown;
+};
+
+const SELECTION_COLUMN_WIDTH = 48;
+const INDEX_COLUMN_WIDTH = 60;
+
 export function VirtualizedTable<
     T extends Record<string, string | number | boolean>
 >({
@@ -22,43 +119,195 @@ export function VirtualizedTable<
     queryKey,
     fetchFn,
     fetchSize = 50,
+    paginationMode = "infinite",
+    initialPageSize = fetchSize,
+    pageSizeOptions = [10, 25, 50, 100],
+    onPaginationChange,
     containerHeight = "45rem",
     estimatedRowHeight = 33,
     scrollThreshold = 500,
     overscan = 5,
+    enableColumnVirtualization = false,
+    columnOverscan = 3,
     enableSorting = true,
+    sortingMode = "client",
+    enableColumnFilters = true,
+    filteringMode = "client",
+    initialColumnFilters = [],
+    onColumnFiltersChange,
+    enableGlobalFilter = true,
+    initialGlobalFilter = "",
+    onGlobalFilterChange,
+    globalFilterDebounce = 300,
+    globalFilterPlaceholder = "Search...",
     enableColumnResizing = true,
     enableRowSelection = true,
     enableColumnToggling = true,
     rowKey = "",
     initialSorting = [],
     onSortingChange,
+    maxSortColumns = 3,
+    initialGrouping = [],
+    // Off unless the table starts grouped
+    enableGrouping = initialGrouping.length > 0,
+    onGroupingChange,
+    renderDetail,
+    getSubRows,
+    expanded: controlledExpanded,
+    onExpandedChange,
     onRowSelectionChange,
     initColumnVisibility = {},
     onColumnVisibilityChange,
+    enableColumnReordering = true,
+    columnOrder: controlledColumnOrder,
+    onColumnOrderChange,
+    enableColumnPinning = true,
+    initialColumnPinning = { left: [], right: [] },
+    columnPinning: controlledColumnPinning,
+    onColumnPinningChange,
+    pinLeadingColumns = true,
+    enableEditing = false,
+    onCommit,
+    mutationFns,
+    refetchOnMutation = false,
+    enableExport = true,
+    exportFileName = "data",
+    stateKey,
+    stateVersion = 1,
+    enableUrlSync = false,
+    urlParamPrefix = "",
+    ref,
     rowClassName,
     containerClassName = "",
     loadingComponent,
     fetchingComponent,
+    emptyComponent,
+    renderError,
 }: VirtualizedTableProps<T>) {
     const tableContainerRef = React.useRef<HTMLDivElement>(null);
-    const [sorting, setSorting] = React.useState<SortingState>(initialSorting);
-    const [rowSelection, setRowSelection] = React.useState<RowSelectionState>(
-        {}
+    const [sectionElement, setSectionElement] =
+        React.useState<HTMLElement | null>(null);
+    const queryClient = useQueryClient();
+    const isServerSorting = sortingMode === "server";
+    const isServerFiltering = filteringMode === "server";
+    const isPaged = paginationMode === "paged";
+    const columnIds = React.useMemo(
+        () => getLeafColumnDefIds(columns),
+        [columns]
+    );
+    const {
+        storedState,
+        views,
+        activeView,
+        isViewModified,
+        saveCurrentState,
+        saveView,
+        updateView,
+        deleteView,
+        selectView,
+    } = useTableViews({ stateKey, version: stateVersion, columnIds });
+    const [urlState] = React.useState(() =>
+        enableUrlSync
+            ? readTableUrlState(
+                  window.location.search,
+                  urlParamPrefix,
+                  columnIds
+              )
+            : null
     );
+    // A shared link wins over the persisted state, which wins over the
+    // initial props
+    const restoredState: Partial<TableViewState> = {
+        ...storedState,
+        ...urlState,
+    };
+    const [sorting, setSorting] = React.useState<SortingState>(
+        restoredState.sorting ?? initialSorting
+    );
+    const [columnFilters, setColumnFilters] =
+        React.useState<ColumnFiltersState>(
+            restoredState.columnFilters ?? initialColumnFilters
+        );
+    const [showColumnFilters, setShowColumnFilters] = React.useState(
+        columnFilters.length > 0
+    );
+    const [globalFilter, setGlobalFilter] = React.useState<string>(
+        restoredState.globalFilter ?? initialGlobalFilter
+    );
+    const [grouping, setGrouping] =
+        React.useState<GroupingState>(initialGrouping);
+    // Detail panels and sub-rows start collapsed and stay as the user left
+    // them while pages load, group rows are expanded unless set to `false`
+    const [uncontrolledExpanded, setUncontrolledExpanded] =
+        React.useState<ExpandedState>({});
+    const expanded = controlledExpanded ?? uncontrolledExpanded;
+    const [pagination, setPagination] = React.useState<PaginationState>({
+        pageIndex: 0,
+        pageSize: initialPageSize,
+    });
     const [columnVisibility, setColumnVisibility] =
-        React.useState<VisibilityState>(initColumnVisibility);
+        React.useState<VisibilityState>(
+            restoredState.columnVisibility ?? initColumnVisibility
+        );
+    const [columnSizing, setColumnSizing] = React.useState<ColumnSizingState>(
+        restoredState.columnSizing ?? {}
+    );
+    const [uncontrolledColumnOrder, setUncontrolledColumnOrder] =
+        React.useState<ColumnOrderState>(restoredState.columnOrder ?? []);
+    const columnOrder = controlledColumnOrder ?? uncontrolledColumnOrder;
+    const [uncontrolledColumnPinning, setUncontrolledColumnPinning] =
+        React.useState<ColumnPinningState>(
+            restoredState.columnPinning ?? initialColumnPinning
+        );
+    const columnPinning = controlledColumnPinning ?? uncontrolledColumnPinning;
     const [showColumnToggle, setShowColumnToggle] = React.useState(false);
+    const [columnAnnouncement, setColumnAnnouncement] = React.useState("");
+    const [editingCell, setEditingCell] = React.useState<{
+        rowId: string;
+        columnId: string;
+    } | null>(null);
+    const [isCommitting, setIsCommitting] = React.useState(false);
+    const [mutationError, setMutationError] = React.useState<string | null>(
+        null
+    );
+
+    // Pending cell edits live in a data store to get undo/redo history
+    const [editStore] = React.useState(() =>
+        createDataStore<TableEditState<T>>({ edits: {}, originals: {} })
+    );
+    const edits = editStore.useDataStore((state) => state.edits);
+    const dirtyRowCount = Object.keys(edits).length;
+
+    // Undo/redo cell edits with Ctrl+Z / Ctrl+Y while the table has focus
+    React.useEffect(() => {
+        if (!enableEditing || !sectionElement) return;
+        return editStore.registerShortcuts(sectionElement);
+    }, [editStore, enableEditing, sectionElement]);
 
     // Notify parent of sorting changes
     React.useEffect(() => {
         onSortingChange?.(sorting);
     }, [sorting, onSortingChange]);
 
-    // Notify parent of row selection changes
+    // Notify parent of grouping changes
+    React.useEffect(() => {
+        onGroupingChange?.(grouping);
+    }, [grouping, onGroupingChange]);
+
+    // Notify parent of column filter changes
+    React.useEffect(() => {
+        onColumnFiltersChange?.(columnFilters);
+    }, [columnFilters, onColumnFiltersChange]);
+
+    // Notify parent of global filter changes
+    React.useEffect(() => {
+        onGlobalFilterChange?.(globalFilter);
+    }, [globalFilter, onGlobalFilterChange]);
+
+    // Notify parent of pagination changes
     React.useEffect(() => {
-        onRowSelectionChange?.(rowSelection);
-    }, [rowSelection, onRowSelectionChange]);
+        if (isPaged) onPaginationChange?.(pagination);
+    }, [isPaged, pagination, onPaginationChange]);
 
     // Notify parent of column visibility changes
     React.useEffect(() => {
@@ -89,28 +338,164 @@ export function VirtualizedTable<
             document.removeEventListener("mousedown", handleClickOutside);
     }, [showColumnToggle]);
 
-    const { data, fetchNextPage, isFetching, isLoading } = useInfiniteQuery<
-        PageData<T>
+    // Sorting and filters only belong to the query in server mode,
+    // otherwise the client processes whatever has been loaded so far
+    const baseQueryKey = Array.isArray(queryKey) ? queryKey : [queryKey];
+    const queryState: TableQueryState = React.useMemo(
+        () => ({ sorting, columnFilters, globalFilter }),
+        [sorting, columnFilters, globalFilter]
+    );
+    const getServerState = (state: TableQueryState): TableQueryState => ({
+        sorting: isServerSorting ? state.sorting : [],
+        columnFilters: isServerFiltering ? state.columnFilters : [],
+        globalFilter: isServerFiltering ? state.globalFilter : "",
+    });
+    const getQueryKey = (state: TableQueryState) => [
+        ...baseQueryKey,
+        getServerState(state),
+    ];
+
+    const infiniteQueryKey = getQueryKey(queryState);
+    const pageQueryKey = [...infiniteQueryKey, pagination];
+    const activeQueryKey = isPaged ? pageQueryKey : infiniteQueryKey;
+
+    const infiniteQuery = useInfiniteQuery<
+        PageData<T>,
+        Error,
+        InfiniteData<PageData<T>, TablePageParam>,
+        unknown[],
+        TablePageParam
     >({
-        queryKey: Array.isArray(queryKey) ? queryKey : [queryKey, sorting],
-        queryFn: async ({ pageParam = 0 }) => {
-            const start = (pageParam as number) * fetchSize;
-            const fetchedData = await fetchFn(start, fetchSize, sorting);
+        queryKey: infiniteQueryKey,
+        queryFn: async ({ pageParam, signal }) => {
+            const fetchedData = await fetchFn({
+                ...getServerState(queryState),
+                start: pageParam.index * fetchSize,
+                size: fetchSize,
+                cursor: pageParam.cursor,
+                signal,
+            });
             return fetchedData;
         },
-        initialPageParam: 0,
-        getNextPageParam: (_lastGroup, groups) => groups.length,
+        initialPageParam: initialTablePageParam,
+        getNextPageParam: getNextTablePageParam,
         refetchOnWindowFocus: false,
         placeholderData: keepPreviousData,
+        enabled: !isPaged,
     });
 
+    // Paged mode fetches a single page per query
+    // Page numbers map to offsets, so paged mode ignores `meta.nextCursor`
+    const pageQuery = useQuery<PageData<T>>({
+        queryKey: pageQueryKey,
+        queryFn: async ({ signal }) => {
+            const fetchedData = await fetchFn({
+                ...getServerState(queryState),
+                start: pagination.pageIndex * pagination.pageSize,
+                size: pagination.pageSize,
+                signal,
+            });
+            return fetchedData;
+        },
+        refetchOnWindowFocus: false,
+        placeholderData: keepPreviousData,
+        enabled: isPaged,
+    });
+
+    const { fetchNextPage, hasNextPage } = infiniteQuery;
+    const {
+        isFetching,
+        isLoading,
+        error: queryError,
+    } = isPaged ? pageQuery : infiniteQuery;
+    // A failed next page keeps the loaded rows and stops loading on scroll
+    // until it is retried
+    const isNextPageError = !isPaged && infiniteQuery.isFetchNextPageError;
+    const retryQuery = () => {
+        if (isNextPageError) fetchNextPage();
+        else if (isPaged) pageQuery.refetch();
+        else infiniteQuery.refetch();
+    };
+
     const flatData = React.useMemo(
-        () => data?.pages?.flatMap((page) => page.data) ?? [],
-        [data]
+        () =>
+            isPaged
+                ? pageQuery.data?.data ?? []
+                : infiniteQuery.data?.pages?.flatMap((page) => page.data) ?? [],
+        [isPaged, pageQuery.data, infiniteQuery.data]
     );
-    const totalDBRowCount = data?.pages?.[0]?.meta?.totalRowCount ?? 0;
+    // Cursor backends may not know the total, `hasNextPage` covers paging then
+    const totalDBRowCount = isPaged
+        ? pageQuery.data?.meta?.totalRowCount
+        : infiniteQuery.data?.pages?.[0]?.meta?.totalRowCount;
+    const serverAggregates = isPaged
+        ? pageQuery.data?.meta?.aggregates
+        : infiniteQuery.data?.pages?.[0]?.meta?.aggregates;
     const totalFetched = flatData.length;
 
+    // Sub-rows without a key fall back to their path, e.g. `3.0`
+    const getRowId = React.useCallback(
+        (row: T, index: number, parent?: Row<T>) =>
+            row[rowKey?.toString()]?.toString() ??
+            (parent ? `${parent.id}.${index}` : index.toString()),
+        [rowKey]
+    );
+
+    // Fetched rows by id, edits are diffed against them
+    const originalRowsById = React.useMemo(() => {
+        const rowsById = new Map<string, T>();
+        flatData.forEach((row, index) => {
+            rowsById.set(getRowId(row, index), row);
+        });
+        return rowsById;
+    }, [flatData, getRowId]);
+    const loadedRowIds = React.useMemo(
+        () => Array.from(originalRowsById.keys()),
+        [originalRowsById]
+    );
+
+    // Client filters narrow the loaded rows only, so the total no longer
+    // tells how many rows match
+    const hasClientFilters =
+        !isServerFiltering && (columnFilters.length > 0 || !!globalFilter);
+    const {
+        rowSelection,
+        onRowSelectionChange: setRowSelection,
+        selection,
+        selectedCount,
+        isAllMatching,
+        selectAllMatching,
+        clearSelection,
+    } = useTableSelection({
+        loadedRowIds,
+        matchingRowCount: hasClientFilters ? undefined : totalDBRowCount,
+        query: queryState,
+    });
+    const lastSelectedIndexRef = React.useRef<number | null>(null);
+
+    // Notify parent of row selection changes
+    React.useEffect(() => {
+        onRowSelectionChange?.(selection);
+    }, [selection, onRowSelectionChange]);
+
+    // Show pending edits on top of the fetched rows
+    const tableData = React.useMemo(() => {
+        if (!Object.keys(edits).length) return flatData;
+        return flatData.map((row, index) => {
+            const rowEdits = edits[getRowId(row, index)];
+            return rowEdits ? ({ ...row, ...rowEdits } as T) : row;
+        });
+    }, [flatData, edits, getRowId]);
+    const pageCount =
+        totalDBRowCount !== undefined
+            ? Math.ceil(totalDBRowCount / pagination.pageSize)
+            : pageQuery.data?.meta?.hasMore
+            ? -1
+            : pagination.pageIndex + 1;
+    const rowIndexOffset = isPaged
+        ? pagination.pageIndex * pagination.pageSize
+        : 0;
+
     const fetchMoreOnBottomReached = React.useCallback(
         (containerRefElement?: HTMLDivElement | null) => {
             if (containerRefElement) {
@@ -118,8 +503,10 @@ export function VirtualizedTable<
                     containerRefElement;
                 if (
                     scrollHeight - scrollTop - clientHeight < scrollThreshold &&
+                    !isPaged &&
                     !isFetching &&
-                    totalFetched < totalDBRowCount
+                    !isNextPageError &&
+                    hasNextPage
                 ) {
                     fetchNextPage();
                 }
@@ -127,9 +514,10 @@ export function VirtualizedTable<
         },
         [
             fetchNextPage,
+            isPaged,
             isFetching,
-            totalFetched,
-            totalDBRowCount,
+            isNextPageError,
+            hasNextPage,
             scrollThreshold,
         ]
     );
@@ -138,50 +526,733 @@ export function VirtualizedTable<
         fetchMoreOnBottomReached(tableContainerRef.current);
     }, [fetchMoreOnBottomReached]);
 
-    const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
-        setSorting(updater);
+    // Drop pages cached for the next query so it restarts from the first
+    // page instead of refetching every page loaded before
+    const resetServerQuery = (state: TableQueryState) => {
+        queryClient.removeQueries({
+            queryKey: getQueryKey(state),
+            exact: true,
+        });
+    };
+
+    // One store update per call, so a pasted block is a single undo step
+    const updateCells = (
+        changes: { rowId: string; columnId: string; value: unknown }[]
+    ) => {
+        editStore.setStore((state) => {
+            changes.forEach(({ rowId, columnId, value }) => {
+                const original =
+                    state.originals[rowId] ?? originalRowsById.get(rowId);
+                if (!original) return;
+
+                const rowEdits = { ...state.edits[rowId] };
+                if (Object.is(original[columnId], value)) {
+                    delete rowEdits[columnId];
+                } else {
+                    rowEdits[columnId] = value;
+                }
+
+                if (Object.keys(rowEdits).length) {
+                    state.edits[rowId] = rowEdits;
+                    state.originals[rowId] = original;
+                } else {
+                    delete state.edits[rowId];
+                    delete state.originals[rowId];
+                }
+            });
+        });
+    };
+
+    const updateCell = (rowId: string, columnId: string, value: unknown) => {
+        stopEditing();
+        updateCells([{ rowId, columnId, value }]);
+    };
+
+    // Hand focus back to the grid cell the editor was opened from
+    const stopEditing = () => {
+        setEditingCell(null);
+        pendingCellFocusRef.current = true;
+    };
+
+    const discardChanges = () => {
+        setMutationError(null);
+        editStore.resetStore();
+    };
+
+    // Send pending edits in one batch, including rows that are no longer
+    // loaded, then keep them in every cached page of the table
+    const commitChanges = async () => {
+        const { edits: pendingEdits, originals } = editStore.getStore();
+        const changes = Object.entries(pendingEdits).map(
+            ([rowId, rowEdits]): TableRowChange<T> => ({
+                rowId,
+                original: originals[rowId],
+                changes: rowEdits as Partial<T>,
+            })
+        );
+        if (!changes.length || !onCommit) return;
+
+        setIsCommitting(true);
+        setMutationError(null);
+        try {
+            await onCommit(changes);
+            queryClient.setQueriesData(
+                { queryKey: baseQueryKey },
+                (cached: unknown) =>
+                    mapCachedPages<T>(cached, (pageRows, offset) =>
+                        pageRows.map((row, index) => {
+                            const rowEdits =
+                                pendingEdits[getRowId(row, offset + index)];
+                            return rowEdits
+                                ? ({ ...row, ...rowEdits } as T)
+                                : row;
+                        })
+                    )
+            );
+            // Keep edits made while saving, against the saved values
+            const state = editStore.getStore();
+            const nextState: TableEditState<T> = { edits: {}, originals: {} };
+            Object.entries(state.edits).forEach(([rowId, rowEdits]) => {
+                const committed = pendingEdits[rowId] ?? {};
+                const remaining = Object.fromEntries(
+                    Object.entries(rowEdits).filter(
+                        ([columnId, value]) =>
+                            !(columnId in committed) ||
+                            !Object.is(committed[columnId], value)
+                    )
+                );
+                if (!Object.keys(remaining).length) return;
+                nextState.edits[rowId] = remaining;
+                nextState.originals[rowId] = {
+                    ...state.originals[rowId],
+                    ...committed,
+                } as T;
+            });
+            editStore.resetStore(nextState);
+        } catch (error) {
+            setMutationError(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to save changes"
+            );
+        } finally {
+            setIsCommitting(false);
+        }
+    };
+
+    // Patch the cached pages right away so changes show at once, then with the
+    // rows and totals the server resolved. A failed mutation only undoes its
+    // own rows, so concurrent ones stay
+    const mutationKey = [...baseQueryKey, "mutation"];
+    const getMutationCallbacks = <TVariables, TData>(
+        patchCache: (
+            cached: unknown,
+            variables: TVariables
+        ) => { data: unknown; rollback: (cached: unknown) => unknown },
+        patchResult?: (
+            cached: unknown,
+            result: TData,
+            variables: TVariables
+        ) => unknown
+    ) => ({
+        mutationKey,
+        onMutate: async (variables: TVariables) => {
+            const mutationQueryKey = activeQueryKey;
+            setMutationError(null);
+            await queryClient.cancelQueries({ queryKey: mutationQueryKey });
+            const { data, rollback } = patchCache(
+                queryClient.getQueryData(mutationQueryKey),
+                variables
+            );
+            queryClient.setQueryData(mutationQueryKey, data);
+            return { mutationQueryKey, rollback };
+        },
+        onError: (
+            error: Error,
+            _variables: TVariables,
+            context?: MutationContext
+        ) => {
+            if (context) {
+                queryClient.setQueryData(
+                    context.mutationQueryKey,
+                    context.rollback
+                );
+            }
+            setMutationError(error.message || "Failed to save changes");
+        },
+        onSuccess: (
+            result: TData,
+            variables: TVariables,
+            context?: MutationContext
+        ) => {
+            if (!context || !patchResult) return;
+            queryClient.setQueryData(
+                context.mutationQueryKey,
+                (cached: unknown) => patchResult(cached, result, variables)
+            );
+        },
+    });
+
+    // With `refetchOnMutation` the last mutation to settle refetches the
+    // query it patched, the settling one still counts as pending
+    const refetchAfterMutations = (
+        _result: unknown,
+        _error: Error | null,
+        _variables: unknown,
+        context?: MutationContext
+    ) => {
+        if (!refetchOnMutation || !context) return;
+        if (queryClient.isMutating({ mutationKey }) > 1) return;
+        queryClient.invalidateQueries({
+            queryKey: context.mutationQueryKey,
+            exact: true,
+        });
+    };
+
+    const replaceCachedRow = (cached: unknown, rowId: string, nextRow: T) =>
+        mapCachedPages<T>(cached, (pageRows, offset) =>
+            pageRows.map((row, index) =>
+                getRowId(row, offset + index) === rowId ? nextRow : row
+            )
+        );
+
+    const updateRowMutation = useMutation({
+        mutationFn: ({
+            rowId,
+            values,
+        }: {
+            rowId: string;
+            values: Partial<T>;
+        }) =>
+            mutationFns?.updateRow
+                ? mutationFns.updateRow(rowId, values)
+                : Promise.resolve(),
+        ...getMutationCallbacks<
+            { rowId: string; values: Partial<T> },
+            T | void
+        >(
+            (cached, { rowId, values }) => {
+                // Only the updated fields are restored on failure
+                let previousValues: Partial<T> | undefined;
+                const data = mapCachedPages<T>(cached, (pageRows, offset) =>
+                    pageRows.map((row, index) => {
+                        if (getRowId(row, offset + index) !== rowId) return row;
+                        previousValues = Object.fromEntries(
+                            Object.keys(values).map((key) => [key, row[key]])
+                        ) as Partial<T>;
+                        return { ...row, ...values } as T;
+                    })
+                );
+                return {
+                    data,
+                    rollback: (current) =>
+                        mapCachedPages<T>(current, (pageRows, offset) =>
+                            pageRows.map((row, index) =>
+                                previousValues &&
+                                getRowId(row, offset + index) === rowId
+                                    ? ({ ...row, ...previousValues } as T)
+                                    : row
+                            )
+                        ),
+                };
+            },
+            (cached, savedRow, { rowId }) =>
+                savedRow ? replaceCachedRow(cached, rowId, savedRow) : cached
+        ),
+        onSettled: refetchAfterMutations,
+    });
+
+    const insertRowMutation = useMutation({
+        mutationFn: ({ row }: { row: T; rowId: string }) =>
+            mutationFns?.insertRow
+                ? mutationFns.insertRow(row)
+                : Promise.resolve(),
+        ...getMutationCallbacks<{ row: T; rowId: string }, T | void>(
+            (cached, { row, rowId }) => ({
+                data: adjustCachedTotal<T>(
+                    mapCachedPages<T>(cached, (pageRows, _offset, pageIndex) =>
+                        pageIndex === 0 ? [row, ...pageRows] : pageRows
+                    ),
+                    1
+                ),
+                rollback: (current) =>
+                    adjustCachedTotal<T>(
+                        mapCachedPages<T>(current, (pageRows, offset) =>
+                            pageRows.filter(
+                                (pageRow, index) =>
+                                    getRowId(pageRow, offset + index) !== rowId
+                            )
+                        ),
+                        -1
+                    ),
+            }),
+            // Swap the optimistic row for the one the server created
+            (cached, savedRow, { rowId }) =>
+                savedRow ? replaceCachedRow(cached, rowId, savedRow) : cached
+        ),
+        onSettled: refetchAfterMutations,
+    });
+
+    const deleteRowsMutation = useMutation({
+        mutationFn: ({ rowIds }: { rowIds: string[] }) =>
+            mutationFns?.deleteRows
+                ? mutationFns.deleteRows(rowIds)
+                : Promise.resolve(),
+        ...getMutationCallbacks<{ rowIds: string[] }, void>(
+            (cached, { rowIds }) => {
+                // Deleted rows by page, to put them back where they were
+                const deletedRows = new Map<
+                    number,
+                    { index: number; row: T }[]
+                >();
+                const data = mapCachedPages<T>(
+                    cached,
+                    (pageRows, offset, pageIndex) =>
+                        pageRows.filter((row, index) => {
+                            if (!rowIds.includes(getRowId(row, offset + index)))
+                                return true;
+                            deletedRows.set(pageIndex, [
+                                ...(deletedRows.get(pageIndex) ?? []),
+                                { index, row },
+                            ]);
+                            return false;
+                        })
+                );
+                const deletedCount = Array.from(deletedRows.values()).flat()
+                    .length;
+                return {
+                    data: adjustCachedTotal<T>(data, -deletedCount),
+                    rollback: (current) =>
+                        adjustCachedTotal<T>(
+                            mapCachedPages<T>(
+                                current,
+                                (pageRows, _offset, pageIndex) => {
+                                    const nextRows = [...pageRows];
+                                    deletedRows
+                                        .get(pageIndex)
+                                        ?.forEach(({ index, row }) =>
+                                            nextRows.splice(index, 0, row)
+                                        );
+                                    return nextRows;
+                                }
+                            ),
+                            deletedCount
+                        ),
+                };
+            }
+        ),
+        onSettled: (result, error, variables, context) => {
+            refetchAfterMutations(result, error, variables, context);
+            if (error) return;
+            setRowSelection((prev) => {
+                const nextSelection = { ...prev };
+                variables.rowIds.forEach(
+                    (rowId) => delete nextSelection[rowId]
+                );
+                return nextSelection;
+            });
+        },
+    });
+
+    // Resolve to whether the mutation succeeded, errors show inline. Row ids
+    // must come from `rowKey`, positions shift as rows are inserted or deleted
+    const runMutation = async (mutation: () => Promise<unknown>) => {
+        if (!rowKey) {
+            setMutationError("Row mutations need the `rowKey` prop");
+            return false;
+        }
+        try {
+            await mutation();
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
+    React.useImperativeHandle(ref, () => ({
+        updateRow: (rowId, values) =>
+            runMutation(() => updateRowMutation.mutateAsync({ rowId, values })),
+        insertRow: (row) =>
+            runMutation(() =>
+                insertRowMutation.mutateAsync({
+                    row,
+                    rowId: getRowId(row, 0),
+                })
+            ),
+        deleteRows: (rowIds) =>
+            runMutation(() => deleteRowsMutation.mutateAsync({ rowIds })),
+        scrollToIndex: (index, options) => {
+            rowVirtualizer.scrollToIndex(index, options);
+        },
+        scrollToRowId: (rowId, options) => {
+            const index = table
+                .getRowModel()
+                .rows.findIndex((row) => row.id === rowId);
+            if (index === -1) return false;
+            rowVirtualizer.scrollToIndex(index, options);
+            return true;
+        },
+        refetch: async () => {
+            await (isPaged ? pageQuery.refetch() : infiniteQuery.refetch());
+        },
+        resetSorting: () => handleSortingChange(initialSorting),
+        // Rows that are not loaded yet can't be returned in "all" mode
+        getSelectedRows: () =>
+            (isAllMatching
+                ? table.getFilteredSelectedRowModel()
+                : table.getSelectedRowModel()
+            ).flatRows.map((row) => row.original),
+        getSelection: () => selection,
+        selectAllMatching,
+        clearSelection,
+        exportData,
+        autoFitColumns,
+        getTableInstance: () => table,
+    }));
+
+    // Jump back to the first row (and page) once the query changes
+    const resetToFirstRow = () => {
+        clearRange();
+        if (isPaged) setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+        if (table.getRowModel().rows.length) {
+            rowVirtualizer.scrollToIndex?.(0);
+        }
+    };
+
+    const handlePaginationChange: OnChangeFn<PaginationState> = (updater) => {
+        clearRange();
+        setPagination(updater);
         if (table.getRowModel().rows.length) {
             rowVirtualizer.scrollToIndex?.(0);
         }
     };
 
+    const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
+        if (isServerSorting) {
+            const nextSorting =
+                typeof updater === "function" ? updater(sorting) : updater;
+            resetServerQuery({ ...queryState, sorting: nextSorting });
+        }
+        setSorting(updater);
+        resetToFirstRow();
+    };
+
+    const handleColumnFiltersChange: OnChangeFn<ColumnFiltersState> = (
+        updater
+    ) => {
+        if (isServerFiltering) {
+            const nextColumnFilters =
+                typeof updater === "function"
+                    ? updater(columnFilters)
+                    : updater;
+            resetServerQuery({
+                ...queryState,
+                columnFilters: nextColumnFilters,
+            });
+        }
+        setColumnFilters(updater);
+        // "All matching rows" belongs to the previous query
+        if (isAllMatching) clearSelection();
+        resetToFirstRow();
+    };
+
+    // The parent owns the order once it passes `columnOrder`
+    const handleColumnOrderChange: OnChangeFn<ColumnOrderState> = (updater) => {
+        const nextColumnOrder =
+            typeof updater === "function" ? updater(columnOrder) : updater;
+        setUncontrolledColumnOrder(nextColumnOrder);
+        onColumnOrderChange?.(nextColumnOrder);
+    };
+
+    const handleColumnPinningChange: OnChangeFn<ColumnPinningState> = (
+        updater
+    ) => {
+        const nextColumnPinning =
+            typeof updater === "function" ? updater(columnPinning) : updater;
+        setUncontrolledColumnPinning(nextColumnPinning);
+        onColumnPinningChange?.(nextColumnPinning);
+    };
+
+    const handleExpandedChange: OnChangeFn<ExpandedState> = (updater) => {
+        const nextExpanded =
+            typeof updater === "function" ? updater(expanded) : updater;
+        setUncontrolledExpanded(nextExpanded);
+        onExpandedChange?.(nextExpanded);
+    };
+
+    const handleGlobalFilterChange: OnChangeFn<string> = (updater) => {
+        const nextGlobalFilter =
+            typeof updater === "function" ? updater(globalFilter) : updater;
+        if (isServerFiltering) {
+            resetServerQuery({ ...queryState, globalFilter: nextGlobalFilter });
+        }
+        setGlobalFilter(nextGlobalFilter);
+        if (isAllMatching) clearSelection();
+        resetToFirstRow();
+    };
+
+    const [searchValue, setSearchValue, debouncedSearchValue, resetSearch] =
+        useDebouncedState(globalFilter, {
+            delay: globalFilterDebounce,
+            onDebounce: (value) => handleGlobalFilterChange(value.trim()),
+        });
+
+    // Sync the search box with a global filter changed from outside
+    React.useEffect(() => {
+        if (globalFilter !== debouncedSearchValue.trim()) {
+            resetSearch(globalFilter);
+        }
+    }, [globalFilter, debouncedSearchValue, resetSearch]);
+
+    const tableColumns = React.useMemo(
+        () => withColumnFilterFns(columns),
+        [columns]
+    );
+
     const table = useReactTable({
-        data: flatData,
-        columns,
+        data: tableData,
+        columns: tableColumns,
         state: {
             sorting,
+            columnFilters,
+            globalFilter,
+            pagination,
             rowSelection,
             columnVisibility,
+            columnOrder,
+            columnPinning,
+            columnSizing,
+            grouping,
+            expanded,
         },
         onSortingChange: enableSorting ? handleSortingChange : undefined,
+        onColumnFiltersChange: enableColumnFilters
+            ? handleColumnFiltersChange
+            : undefined,
+        onGlobalFilterChange: enableGlobalFilter
+            ? handleGlobalFilterChange
+            : undefined,
         onRowSelectionChange: enableRowSelection ? setRowSelection : undefined,
         onColumnVisibilityChange: enableColumnToggling
             ? setColumnVisibility
             : undefined,
+        onColumnOrderChange: handleColumnOrderChange,
+        onColumnPinningChange: handleColumnPinningChange,
+        onColumnSizingChange: setColumnSizing,
+        onGroupingChange: enableGrouping ? setGrouping : undefined,
+        onExpandedChange: handleExpandedChange,
         getCoreRowModel: getCoreRowModel(),
-        getFilteredRowModel: getFilteredRowModel(),
-        getSortedRowModel: getSortedRowModel(),
-        manualSorting: false,
+        getFilteredRowModel: isServerFiltering
+            ? undefined
+            : getFilteredRowModel(),
+        getFacetedRowModel: getFacetedRowModel(),
+        getFacetedUniqueValues: getFacetedUniqueValues(),
+        getSortedRowModel: isServerSorting ? undefined : getSortedRowModel(),
+        // Shift+click adds sort keys, the oldest one drops past the maximum
+        maxMultiSortColCount: maxSortColumns,
+        getGroupedRowModel: enableGrouping ? getGroupedRowModel() : undefined,
+        getExpandedRowModel: getExpandedRowModel(),
+        getSubRows,
+        // Any row can open its detail panel, otherwise only rows with children
+        getRowCanExpand: renderDetail ? () => true : undefined,
+        autoResetExpanded: false,
+        aggregationFns: getTableAggregationFns<T>(),
+        defaultColumn: {
+            aggregatedCell: ({ getValue }) => formatAggregatedValue(getValue()),
+        },
+        enableGrouping,
+        manualSorting: isServerSorting,
+        manualFiltering: isServerFiltering,
+        manualPagination: true,
+        pageCount,
+        onPaginationChange: handlePaginationChange,
+        enableColumnFilters,
+        enableGlobalFilter,
+        globalFilterFn: getGlobalFilterFn<T>(),
         debugTable: false,
         columnResizeMode: "onChange",
         enableColumnResizing,
-        enableRowSelection,
+        // Group rows (de)select their rows instead
+        enableRowSelection: enableRowSelection
+            ? (row) => !row.getIsGrouped()
+            : false,
         enableHiding: enableColumnToggling,
-        getRowId: (row: T, index: number) =>
-            row[rowKey?.toString()]?.toString() ?? index.toString(),
+        enableColumnPinning,
+        getRowId,
     });
 
+    const groupRowIds = grouping.length
+        ? table
+              .getGroupedRowModel()
+              .flatRows.filter((row) => row.getIsGrouped())
+              .map((row) => row.id)
+        : [];
+
     table.setOptions((prev) => ({
         ...prev,
+        state: {
+            ...prev.state,
+            expanded:
+                expanded === true
+                    ? true
+                    : {
+                          ...Object.fromEntries(
+                              groupRowIds.map((id) => [id, true])
+                          ),
+                          ...expanded,
+                      },
+        },
         onSortingChange: enableSorting ? handleSortingChange : undefined,
+        onColumnFiltersChange: enableColumnFilters
+            ? handleColumnFiltersChange
+            : undefined,
+        onGlobalFilterChange: enableGlobalFilter
+            ? handleGlobalFilterChange
+            : undefined,
+        onPaginationChange: handlePaginationChange,
         onRowSelectionChange: enableRowSelection ? setRowSelection : undefined,
         onColumnVisibilityChange: enableColumnToggling
             ? setColumnVisibility
             : undefined,
+        onColumnOrderChange: handleColumnOrderChange,
+        onColumnPinningChange: handleColumnPinningChange,
+        onColumnSizingChange: setColumnSizing,
+        onGroupingChange: enableGrouping ? setGrouping : undefined,
+        onExpandedChange: handleExpandedChange,
     }));
 
+    // Group rows are open by default, so collapsing one stores `false`
+    const toggleRowExpanded = (row: Row<T>, value = !row.getIsExpanded()) => {
+        if (!row.getIsGrouped()) {
+            row.toggleExpanded(value);
+            return;
+        }
+        handleExpandedChange((prev) => ({
+            ...(prev === true
+                ? Object.fromEntries(
+                      Object.keys(table.getRowModel().rowsById).map((id) => [
+                          id,
+                          true,
+                      ])
+                  )
+                : prev),
+            [row.id]: value,
+        }));
+    };
+
+    const getViewState = (): TableViewState => ({
+        sorting,
+        columnFilters,
+        globalFilter,
+        columnSizing,
+        columnOrder,
+        columnPinning,
+        columnVisibility,
+    });
+    const defaultViewState: TableViewState = {
+        sorting: initialSorting,
+        columnFilters: initialColumnFilters,
+        globalFilter: initialGlobalFilter,
+        columnSizing: {},
+        columnOrder: [],
+        columnPinning: initialColumnPinning,
+        columnVisibility: initColumnVisibility,
+    };
+
+    // Persist the state once a column resize is over, not on every move
+    const isResizingColumn =
+        !!table.getState().columnSizingInfo.isResizingColumn;
+    React.useEffect(() => {
+        if (!stateKey || isResizingColumn) return;
+        saveCurrentState({
+            sorting,
+            columnFilters,
+            globalFilter,
+            columnSizing,
+            columnOrder,
+            columnPinning,
+            columnVisibility,
+        });
+    }, [
+        stateKey,
+        isResizingColumn,
+        saveCurrentState,
+        sorting,
+        columnFilters,
+        globalFilter,
+        columnSizing,
+        columnOrder,
+        columnPinning,
+        columnVisibility,
+    ]);
+
+    // Applied at once, so a server query is reset a single time
+    const applyViewState = (view: TableViewState) => {
+        if (isServerSorting || isServerFiltering) resetServerQuery(view);
+        setSorting(view.sorting);
+        setColumnFilters(view.columnFilters);
+        setShowColumnFilters((prev) => prev || view.columnFilters.length > 0);
+        setGlobalFilter(view.globalFilter);
+        setColumnSizing(view.columnSizing);
+        setColumnVisibility(view.columnVisibility);
+        handleColumnOrderChange(view.columnOrder);
+        handleColumnPinningChange(view.columnPinning);
+        if (isAllMatching) clearSelection();
+        resetToFirstRow();
+    };
+
+    const urlSyncState = React.useMemo(
+        () => ({ sorting, columnFilters, globalFilter, columnVisibility }),
+        [sorting, columnFilters, globalFilter, columnVisibility]
+    );
+    useTableUrlSync({
+        enabled: enableUrlSync,
+        prefix: urlParamPrefix,
+        columnIds,
+        state: urlSyncState,
+        // A URL without table params stands for the initial state
+        onPopState: (nextUrlState) =>
+            applyViewState({
+                ...getViewState(),
+                ...(nextUrlState ?? {
+                    sorting: defaultViewState.sorting,
+                    columnFilters: defaultViewState.columnFilters,
+                    globalFilter: defaultViewState.globalFilter,
+                    columnVisibility: defaultViewState.columnVisibility,
+                }),
+            }),
+    });
+
     const { rows } = table.getRowModel();
 
+    // Footer summaries by column id, client ones cover the loaded rows
+    const filteredRows = table.getFilteredRowModel().rows;
+    const leafColumns = table.getAllLeafColumns();
+    const footerValues = React.useMemo(() => {
+        const values: Record<string, unknown> = {};
+        leafColumns.forEach((column) => {
+            const { footerAggregate, footerSource = "client" } =
+                column.columnDef.meta ?? {};
+            if (!footerAggregate) return;
+            values[column.id] =
+                footerSource === "server"
+                    ? serverAggregates?.[column.id]
+                    : getFooterAggregate(
+                          column.id,
+                          footerAggregate,
+                          filteredRows
+                      );
+        });
+        return values;
+    }, [leafColumns, filteredRows, serverAggregates]);
+    const hasFooter = table
+        .getVisibleLeafColumns()
+        .some(
+            (column) =>
+                !!column.columnDef.meta?.footerAggregate ||
+                !!column.columnDef.footer
+        );
+
     const rowVirtualizer = useVirtualizer({
         count: rows.length,
         estimateSize: () => estimatedRowHeight,
@@ -192,11 +1263,800 @@ export function VirtualizedTable<
                 ? (element) => element?.getBoundingClientRect().height
                 : undefined,
         overscan,
+        // Keep focused rows clear of the sticky footer
+        scrollPaddingEnd: hasFooter ? estimatedRowHeight : 0,
+    });
+
+    // Pinned columns render first and last, cell indices follow that order
+    const visibleColumns = [
+        ...table.getLeftVisibleLeafColumns(),
+        ...table.getCenterVisibleLeafColumns(),
+        ...table.getRightVisibleLeafColumns(),
+    ];
+    const leftColumnCount = table.getLeftVisibleLeafColumns().length;
+    const centerColumns = table.getCenterVisibleLeafColumns();
+    const selectionColumnWidth = enableRowSelection
+        ? SELECTION_COLUMN_WIDTH
+        : 0;
+    const fontScale = getRootFontScale();
+
+    // Only the unpinned columns are virtualized, they start after the leading
+    // and left-pinned columns
+    const columnVirtualizer = useVirtualizer({
+        count: centerColumns.length,
+        estimateSize: (index) => centerColumns[index].getSize() * fontScale,
+        getScrollElement: () => tableContainerRef.current,
+        getItemKey: (index) => centerColumns[index].id,
+        horizontal: true,
+        scrollMargin:
+            selectionColumnWidth +
+            INDEX_COLUMN_WIDTH +
+            table.getLeftTotalSize() * fontScale,
+        overscan: columnOverscan,
+        enabled: enableColumnVirtualization,
+    });
+
+    // Cached widths go stale once columns are resized, toggled or moved, or
+    // the root font size changes
+    const centerColumnSizes = centerColumns
+        .map((column) => `${column.id}:${column.getSize()}`)
+        .join();
+    React.useEffect(() => {
+        columnVirtualizer.measure();
+    }, [columnVirtualizer, centerColumnSizes, fontScale]);
+
+    const virtualColumns = columnVirtualizer.getVirtualItems();
+    const firstVirtualColumn = virtualColumns[0];
+    const lastVirtualColumn = virtualColumns[virtualColumns.length - 1];
+    const columnPaddingLeft =
+        enableColumnVirtualization && firstVirtualColumn
+            ? firstVirtualColumn.start - columnVirtualizer.options.scrollMargin
+            : 0;
+    const columnPaddingRight =
+        enableColumnVirtualization && lastVirtualColumn
+            ? columnVirtualizer.getTotalSize() -
+              (lastVirtualColumn.end - columnVirtualizer.options.scrollMargin)
+            : 0;
+    // Indices into `visibleColumns` of the columns to render
+    const renderedColumnIndexes = {
+        left: Array.from({ length: leftColumnCount }, (_, index) => index),
+        center: enableColumnVirtualization
+            ? virtualColumns.map(
+                  (virtualColumn) => leftColumnCount + virtualColumn.index
+              )
+            : centerColumns.map((_, index) => leftColumnCount + index),
+        right: Array.from(
+            {
+                length:
+                    visibleColumns.length -
+                    leftColumnCount -
+                    centerColumns.length,
+            },
+            (_, index) => leftColumnCount + centerColumns.length + index
+        ),
+    };
+
+    // Spacers stand in for the center columns scrolled out of view
+    const renderColumnSections = (
+        renderSection: (columnIndexes: number[]) => React.ReactNode[],
+        Spacer: "th" | "td"
+    ) => [
+        ...renderSection(renderedColumnIndexes.left),
+        columnPaddingLeft > 0 && (
+            <Spacer
+                key="column-padding-left"
+                style={{ display: "flex", width: columnPaddingLeft }}
+                aria-hidden="true"
+            />
+        ),
+        ...renderSection(renderedColumnIndexes.center),
+        columnPaddingRight > 0 && (
+            <Spacer
+                key="column-padding-right"
+                style={{ display: "flex", width: columnPaddingRight }}
+                aria-hidden="true"
+            />
+        ),
+        ...renderSection(renderedColumnIndexes.right),
+    ];
+    const renderColumnCells = (
+        renderCell: (columnIndex: number) => React.ReactNode,
+        Spacer: "th" | "td"
+    ) =>
+        renderColumnSections(
+            (columnIndexes) => columnIndexes.map(renderCell),
+            Spacer
+        );
+    // Headers above the leaves span several columns, each one renders once
+    // per section over the columns of its span that are rendered
+    const renderHeaderCells = (
+        headerGroup: HeaderGroup<T>,
+        renderHeader: (
+            header: Header<T, unknown>,
+            columnIndexes: number[]
+        ) => React.ReactNode
+    ) => {
+        const headersByColumnIndex = headerGroup.headers.flatMap((header) =>
+            Array.from({ length: header.colSpan }, () => header)
+        );
+        return renderColumnSections(
+            (columnIndexes) =>
+                columnIndexes
+                    .reduce<
+                        {
+                            header: Header<T, unknown>;
+                            columnIndexes: number[];
+                        }[]
+                    >((spans, columnIndex) => {
+                        const header = headersByColumnIndex[columnIndex];
+                        const lastSpan = spans[spans.length - 1];
+                        if (lastSpan?.header === header) {
+                            lastSpan.columnIndexes.push(columnIndex);
+                        } else if (header) {
+                            spans.push({
+                                header,
+                                columnIndexes: [columnIndex],
+                            });
+                        }
+                        return spans;
+                    }, [])
+                    .map((span) =>
+                        renderHeader(span.header, span.columnIndexes)
+                    ),
+            "th"
+        );
+    };
+    const {
+        range: cellRange,
+        bounds: cellRangeBounds,
+        isSelectingCells,
+        setRange: setCellRange,
+        isCellInRange,
+        startRange,
+        dragRange,
+        focusCell,
+        clearRange,
+    } = useCellRange({
+        rowCount: rows.length,
+        columnCount: visibleColumns.length,
+    });
+    const leadingColumnCount = (enableRowSelection ? 1 : 0) + 1;
+    const headerRowCount =
+        table.getHeaderGroups().length +
+        (enableColumnFilters && showColumnFilters ? 1 : 0);
+    // The first cell takes the tab stop until another one is focused
+    const activeCell = cellRange?.focus ?? { rowIndex: 0, columnIndex: 0 };
+    const isActiveCellRendered =
+        rowVirtualizer
+            .getVirtualItems()
+            .some((virtualRow) => virtualRow.index === activeCell.rowIndex) &&
+        Object.values(renderedColumnIndexes).some((columnIndexes) =>
+            columnIndexes.includes(activeCell.columnIndex)
+        );
+    const pendingCellFocusRef = React.useRef(false);
+    const getCellElement = ({ rowIndex, columnIndex }: CellPosition) =>
+        tableContainerRef.current?.querySelector<HTMLElement>(
+            `[data-cell="${rowIndex}:${columnIndex}"]`
+        );
+
+    // Move DOM focus once the focused cell's row is rendered, unless the
+    // user has moved on to something outside the grid
+    React.useEffect(() => {
+        if (!pendingCellFocusRef.current) return;
+        const activeElement = document.activeElement;
+        if (
+            activeElement &&
+            activeElement !== document.body &&
+            !tableContainerRef.current?.contains(activeElement)
+        ) {
+            pendingCellFocusRef.current = false;
+            return;
+        }
+
+        const cellElement = getCellElement(activeCell);
+        if (!cellElement) return;
+        pendingCellFocusRef.current = false;
+        cellElement.focus({ preventScroll: true });
+    });
+
+    // Scroll the virtualizer so the cell renders, then focus it
+    const focusGridCell = (cell: CellPosition, extend = false) => {
+        const nextFocus = focusCell(cell, extend);
+        if (!nextFocus) return;
+        pendingCellFocusRef.current = true;
+        rowVirtualizer.scrollToIndex(nextFocus.rowIndex);
+        const centerIndex = nextFocus.columnIndex - leftColumnCount;
+        if (
+            enableColumnVirtualization &&
+            centerIndex >= 0 &&
+            centerIndex < centerColumns.length
+        ) {
+            columnVirtualizer.scrollToIndex(centerIndex);
+        }
+    };
+
+    const resizeColumn = (column: Column<T, unknown>, size: number) => {
+        const nextSize = clampColumnSize(column, size);
+        table.setColumnSizing((prev) => ({ ...prev, [column.id]: nextSize }));
+        setColumnAnnouncement(
+            `${getColumnLabel(column)} column width ${nextSize} pixels`
+        );
+    };
+
+    // Fit columns to their widest rendered header or cell, columns virtualized
+    // out of view have none and keep their width
+    const autoFitColumns = (
+        columnIds: string[] = visibleColumns.map((column) => column.id)
+    ) => {
+        if (!tableContainerRef.current) return;
+        const widths = measureColumnWidths(
+            tableContainerRef.current,
+            columnIds
+        );
+        const columnSizing = Object.entries(widths).reduce<
+            Record<string, number>
+        >((acc, [columnId, width]) => {
+            const column = table.getColumn(columnId);
+            if (column) acc[columnId] = clampColumnSize(column, width);
+            return acc;
+        }, {});
+        table.setColumnSizing((prev) => ({ ...prev, ...columnSizing }));
+
+        const fittedColumns = Object.keys(columnSizing);
+        const column =
+            fittedColumns.length === 1 && table.getColumn(fittedColumns[0]);
+        setColumnAnnouncement(
+            column
+                ? `${getColumnLabel(column)} column width ${
+                      columnSizing[column.id]
+                  } pixels`
+                : `Fitted ${fittedColumns.length} columns to their content`
+        );
+    };
+
+    const reorderColumn = (
+        columnId: string,
+        targetColumnId: string,
+        position: ColumnDropPosition
+    ) => {
+        const allColumnIds = table
+            .getAllLeafColumns()
+            .map((column) => column.id);
+        const nextOrder = moveColumnId(
+            allColumnIds,
+            columnId,
+            targetColumnId,
+            position
+        );
+        const column = table.getColumn(columnId);
+        if (nextOrder === allColumnIds || !column) return;
+
+        table.setColumnOrder(nextOrder);
+        setColumnAnnouncement(
+            `Moved ${getColumnLabel(column)} column to position ${
+                nextOrder.indexOf(columnId) + 1
+            } of ${nextOrder.length}`
+        );
+    };
+
+    // The visible neighbour, hidden columns are skipped
+    const getMoveTargetId = (columnId: string, direction: -1 | 1) => {
+        const visibleColumnIds = visibleColumns.map((column) => column.id);
+        const columnIndex = visibleColumnIds.indexOf(columnId);
+        return columnIndex === -1
+            ? undefined
+            : visibleColumnIds[columnIndex + direction];
+    };
+
+    // Swap places with the neighbouring visible column
+    const moveColumn = (columnId: string, direction: -1 | 1) => {
+        const targetColumnId = getMoveTargetId(columnId, direction);
+        if (targetColumnId) {
+            reorderColumn(
+                columnId,
+                targetColumnId,
+                direction > 0 ? "after" : "before"
+            );
+        }
+    };
+
+    // Pinning a column to the side it is pinned to unpins it
+    const pinColumn = (column: Column<T, unknown>, side: "left" | "right") => {
+        const nextPinned = column.getIsPinned() === side ? false : side;
+        column.pin(nextPinned);
+        setColumnAnnouncement(
+            nextPinned
+                ? `Pinned ${getColumnLabel(column)} column to the ${side}`
+                : `Unpinned ${getColumnLabel(column)} column`
+        );
+    };
+
+    const pinnedLeadingWidth = pinLeadingColumns
+        ? selectionColumnWidth + INDEX_COLUMN_WIDTH
+        : 0;
+    // Without left-pinned columns the index column ends the pinned edge
+    const leadingEdgeClassName =
+        pinLeadingColumns && !table.getLeftVisibleLeafColumns().length
+            ? pinnedEdgeClassNames.left
+            : "";
+
+    const getLeadingCellStyle = (
+        offset: number,
+        width: number
+    ): React.CSSProperties => ({
+        display: "flex",
+        width: `${width}px`,
+        ...(pinLeadingColumns
+            ? { position: "sticky", left: offset, zIndex: 1 }
+            : { position: "relative" }),
+    });
+
+    const getPinnedEdgeClassName = (column: Column<T, unknown>) => {
+        const pinned = column.getIsPinned();
+        return clsx({
+            [pinnedEdgeClassNames.left]:
+                pinned === "left" && column.getIsLastColumn("left"),
+            [pinnedEdgeClassNames.right]:
+                pinned === "right" && column.getIsFirstColumn("right"),
+        });
+    };
+
+    const {
+        draggedColumnId,
+        dropTarget: columnDropTarget,
+        getDragHandleProps,
+        getDropTargetProps,
+    } = useColumnDrag({
+        enabled: enableColumnReordering,
+        onDrop: reorderColumn,
+    });
+
+    // Range shortcuts only apply outside inputs, editors and buttons
+    const isRangeTarget = (target: EventTarget) =>
+        !(target as HTMLElement).closest(
+            "input, textarea, select, button, [role='button'], [role='separator'], [contenteditable='true']"
+        );
+
+    const handleCellMouseDown = (
+        event: React.MouseEvent,
+        cell: CellPosition
+    ) => {
+        if (event.button !== 0 || !isRangeTarget(event.target)) return;
+        // Shift+click extends the range, not the text selection
+        if (event.shiftKey) event.preventDefault();
+        (event.currentTarget as HTMLElement).focus({ preventScroll: true });
+        startRange(cell, event.shiftKey);
+    };
+
+    // Edits only apply to fetched rows, not group rows or sub-rows
+    const isCellEditable = (row: Row<T>, column: Column<T, unknown>) =>
+        enableEditing &&
+        !!column.columnDef.meta?.editable &&
+        originalRowsById.has(row.id);
+
+    // Enter edits editable cells, otherwise it activates the cell's control
+    const activateCell = ({ rowIndex, columnIndex }: CellPosition) => {
+        const row = rows[rowIndex];
+        const column = visibleColumns[columnIndex];
+        if (!row || !column) return;
+
+        if (row.getIsGrouped()) {
+            toggleRowExpanded(row);
+            return;
+        }
+
+        if (isCellEditable(row, column)) {
+            setEditingCell({ rowId: row.id, columnId: column.id });
+            return;
+        }
+
+        // The first cell holds the expander, editable cells leave it to +/-
+        if (columnIndex === 0 && row.getCanExpand()) {
+            row.toggleExpanded();
+            return;
+        }
+
+        const control = getCellElement({
+            rowIndex,
+            columnIndex,
+        })?.querySelector<HTMLElement>("a[href], button, input, select");
+        control?.focus();
+        if (
+            control instanceof HTMLAnchorElement ||
+            control instanceof HTMLButtonElement
+        ) {
+            control.click();
+        }
+    };
+
+    // Arrow keys stay within the body rows, header controls (sort, filters,
+    // grouping, resize) keep their own tab stops and keys
+    const handleGridKeyDown = (event: React.KeyboardEvent) => {
+        if (
+            !(event.target as HTMLElement).closest("tbody") ||
+            !isRangeTarget(event.target) ||
+            !rows.length
+        ) {
+            return;
+        }
+        const { rowIndex, columnIndex } = activeCell;
+        const lastRowIndex = rows.length - 1;
+        const lastColumnIndex = visibleColumns.length - 1;
+        const isCtrlKey = event.ctrlKey || event.metaKey;
+        // Rows fully visible in the scroll container
+        const pageRowCount = Math.max(
+            1,
+            Math.floor(
+                (tableContainerRef.current?.clientHeight ?? 0) /
+                    estimatedRowHeight
+            ) - 1
+        );
+
+        let nextCell: CellPosition;
+        switch (event.key) {
+            case "ArrowUp":
+                nextCell = { rowIndex: rowIndex - 1, columnIndex };
+                break;
+            case "ArrowDown":
+                nextCell = { rowIndex: rowIndex + 1, columnIndex };
+                break;
+            case "ArrowLeft":
+                nextCell = { rowIndex, columnIndex: columnIndex - 1 };
+                break;
+            case "ArrowRight":
+                nextCell = { rowIndex, columnIndex: columnIndex + 1 };
+                break;
+            case "Home":
+                nextCell = {
+                    rowIndex: isCtrlKey ? 0 : rowIndex,
+                    columnIndex: 0,
+                };
+                break;
+            case "End":
+                nextCell = {
+                    rowIndex: isCtrlKey ? lastRowIndex : rowIndex,
+                    columnIndex: lastColumnIndex,
+                };
+                break;
+            case "PageUp":
+                nextCell = { rowIndex: rowIndex - pageRowCount, columnIndex };
+                break;
+            case "PageDown":
+                nextCell = { rowIndex: rowIndex + pageRowCount, columnIndex };
+                break;
+            case " ":
+                if (!enableRowSelection || !rows[rowIndex]) return;
+                event.preventDefault();
+                toggleRowSelected(rows[rowIndex]);
+                return;
+            case "+":
+            case "-":
+                if (!rows[rowIndex]?.getCanExpand()) return;
+                event.preventDefault();
+                toggleRowExpanded(rows[rowIndex], event.key === "+");
+                return;
+            case "Enter":
+            case "F2":
+                event.preventDefault();
+                activateCell(activeCell);
+                return;
+            case "Escape":
+                // Collapse the range back to the focused cell
+                if (cellRange) focusCell(cellRange.focus, false);
+                return;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+        focusGridCell(nextCell, event.shiftKey);
+    };
+
+    // Raw cell values of the range, row by row
+    const getRangeValues = ({ top, bottom, left, right }: CellRangeBounds) =>
+        rows
+            .slice(top, bottom + 1)
+            .map((row) =>
+                visibleColumns
+                    .slice(left, right + 1)
+                    .map((column) => row.getValue(column.id))
+            );
+
+    const handleCopy = (event: React.ClipboardEvent) => {
+        if (!cellRangeBounds || !isRangeTarget(event.target)) return;
+        event.preventDefault();
+        const values = getRangeValues(cellRangeBounds);
+        event.clipboardData.setData("text/plain", toClipboardText(values));
+        event.clipboardData.setData("text/html", toClipboardHtml(values));
+    };
+
+    // Paste from the top-left cell of the range, a single value fills it
+    const handlePaste = (event: React.ClipboardEvent) => {
+        if (!enableEditing || !cellRangeBounds) return;
+        if (!isRangeTarget(event.target)) return;
+        const valueRows = parseClipboardText(
+            event.clipboardData.getData("text/plain")
+        );
+        if (!valueRows.length) return;
+        event.preventDefault();
+
+        const { top, bottom, left, right } = cellRangeBounds;
+        const isFill = valueRows.length === 1 && valueRows[0].length === 1;
+        const rowSpan = isFill ? bottom - top + 1 : valueRows.length;
+        const columnSpan = isFill
+            ? right - left + 1
+            : Math.max(...valueRows.map((values) => values.length));
+
+        const changes: { rowId: string; columnId: string; value: unknown }[] =
+            [];
+        for (let rowOffset = 0; rowOffset < rowSpan; rowOffset++) {
+            const row = rows[top + rowOffset];
+            if (!row) break;
+            if (row.getIsGrouped()) continue;
+            for (
+                let columnOffset = 0;
+                columnOffset < columnSpan;
+                columnOffset++
+            ) {
+                const column = visibleColumns[left + columnOffset];
+                if (!column) break;
+                const columnMeta = column.columnDef.meta;
+                const text = isFill
+                    ? valueRows[0][0]
+                    : valueRows[rowOffset][columnOffset];
+                if (!columnMeta?.editable || text === undefined) continue;
+
+                const value = coercePastedValue(
+                    text,
+                    columnMeta.editor ??
+                        inferCellEditor(
+                            originalRowsById.get(row.id)?.[column.id]
+                        ),
+                    columnMeta.editorOptions
+                );
+                if (value !== undefined) {
+                    changes.push({ rowId: row.id, columnId: column.id, value });
+                }
+            }
+        }
+        if (!changes.length) return;
+
+        updateCells(changes);
+        setCellRange({
+            anchor: { rowIndex: top, columnIndex: left },
+            focus: {
+                rowIndex: Math.min(top + rowSpan, rows.length) - 1,
+                columnIndex:
+                    Math.min(left + columnSpan, visibleColumns.length) - 1,
+            },
+        });
+    };
+
+    // Stream every row of the current query through `fetchFn`, page by page
+    const fetchAllRows = async (
+        signal: AbortSignal,
+        onProgress: (progress: TableExportProgress) => void
+    ) => {
+        const pages: PageData<T>[] = [];
+        const allRows: T[] = [];
+        let pageParam: TablePageParam | undefined = initialTablePageParam;
+
+        while (pageParam) {
+            const page = await fetchFn({
+                ...getServerState(queryState),
+                start: pageParam.index * fetchSize,
+                size: fetchSize,
+                cursor: pageParam.cursor,
+                signal,
+            });
+            signal.throwIfAborted();
+            pages.push(page);
+            allRows.push(...page.data);
+            onProgress({
+                loadedRowCount: allRows.length,
+                totalRowCount: pages[0].meta?.totalRowCount,
+            });
+            // An empty page would otherwise be requested forever
+            pageParam = page.data.length
+                ? getNextTablePageParam(page, pages)
+                : undefined;
+        }
+
+        // Client sorting and filters still have to run on the streamed rows
+        return applyClientQuery(table, allRows, {
+            filter: !isServerFiltering,
+            sort: !isServerSorting,
+        });
+    };
+
+    const resolveExportRows = async (
+        scope: TableExportScope,
+        signal: AbortSignal,
+        onProgress: (progress: TableExportProgress) => void
+    ) => {
+        // Every loaded data row in display order, collapsed groups included
+        const loadedRows = table
+            .getRowModel()
+            .flatRows.filter((row) => !row.getIsGrouped());
+        if (scope === "loaded") return loadedRows.map((row) => row.original);
+        if (scope === "all") {
+            const allRows = await fetchAllRows(signal, onProgress);
+            return allRows.map((row) => row.original);
+        }
+
+        // Selected rows outside the loaded ones have to be streamed
+        const selectedRowIds = new Set(
+            selection.mode === "include" ? selection.rowIds : []
+        );
+        const isSelectionLoaded =
+            selection.mode === "include" &&
+            selection.rowIds.every((rowId) => originalRowsById.has(rowId));
+        if (isSelectionLoaded) {
+            return loadedRows
+                .filter((row) => row.getIsSelected())
+                .map((row) => row.original);
+        }
+
+        const excludedRowIds = new Set(
+            selection.mode === "all" ? selection.excludedRowIds : []
+        );
+        const allRows = await fetchAllRows(signal, onProgress);
+        return allRows
+            .filter((row) =>
+                selection.mode === "all"
+                    ? !excludedRowIds.has(row.id)
+                    : selectedRowIds.has(row.id)
+            )
+            .map((row) => row.original);
+    };
+
+    const {
+        exportData,
+        cancelExport,
+        progress: exportProgress,
+        error: exportError,
+        clearError: clearExportError,
+    } = useTableExport({
+        table,
+        resolveRows: resolveExportRows,
+        fileName: exportFileName,
     });
 
     // Calculate selection stats for accessibility
-    const selectedRowCount = Object.keys(rowSelection).length;
-    const totalSelectableRows = rows.length;
+    const selectedRowCount = selectedCount ?? rows.length;
+    const totalSelectableRows = totalDBRowCount ?? rows.length;
+    const hasUnloadedRows = isPaged
+        ? totalDBRowCount === undefined ||
+          totalDBRowCount > rows.length ||
+          pagination.pageIndex > 0
+        : !!hasNextPage || (totalDBRowCount ?? 0) > totalFetched;
+    const showSelectAllMatching =
+        enableRowSelection &&
+        !isAllMatching &&
+        hasUnloadedRows &&
+        table.getIsAllRowsSelected();
+
+    // A group row counts as selected once all of its rows are
+    const toggleRowSelected = (row: Row<T>, value?: boolean) =>
+        row.toggleSelected(
+            value ??
+                !(row.getIsGrouped()
+                    ? row.getIsAllSubRowsSelected()
+                    : row.getIsSelected())
+        );
+
+    // Group rows show their value and row count, then aggregates. Expandable
+    // rows get their toggle in the first cell, sub-rows are indented
+    const renderCellContent = (
+        cell: Cell<T, unknown>,
+        isFirstCell: boolean
+    ) => {
+        const { row } = cell;
+        if (cell.getIsGrouped()) {
+            return (
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => toggleRowExpanded(row)}
+                    className="flex items-center gap-1 font-semibold text-gray-900 cursor-pointer focus:outline-none"
+                    style={{ marginLeft: `${row.depth * 1.25}rem` }}
+                    aria-expanded={row.getIsExpanded()}
+                >
+                    <IconArrowDown
+                        className={clsx(
+                            "w-4 h-4 shrink-0 transition-transform duration-150",
+                            { "-rotate-90": !row.getIsExpanded() }
+                        )}
+                        aria-hidden="true"
+                    />
+                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    <span className="font-normal text-gray-500">
+                        (
+                        {
+                            row
+                                .getLeafRows()
+                                .filter((leafRow) => !leafRow.getIsGrouped())
+                                .length
+                        }
+                        )
+                    </span>
+                </button>
+            );
+        }
+        if (cell.getIsAggregated()) {
+            return flexRender(
+                cell.column.columnDef.aggregatedCell,
+                cell.getContext()
+            );
+        }
+        if (cell.getIsPlaceholder()) return null;
+        const content = flexRender(
+            cell.column.columnDef.cell,
+            cell.getContext()
+        );
+        if (!isFirstCell || (!renderDetail && !getSubRows)) return content;
+        return (
+            <div
+                className="flex items-center gap-1 min-w-0"
+                style={{ paddingLeft: `${row.depth * 1.25}rem` }}
+            >
+                {row.getCanExpand() ? (
+                    <button
+                        type="button"
+                        tabIndex={-1}
+                        onClick={row.getToggleExpandedHandler()}
+                        className="shrink-0 text-gray-500 rounded cursor-pointer hover:text-gray-900 focus:outline-none"
+                        aria-expanded={row.getIsExpanded()}
+                        aria-label={
+                            row.getIsExpanded() ? "Collapse row" : "Expand row"
+                        }
+                    >
+                        <IconArrowDown
+                            className={clsx(
+                                "w-4 h-4 transition-transform duration-150",
+                                { "-rotate-90": !row.getIsExpanded() }
+                            )}
+                            aria-hidden="true"
+                        />
+                    </button>
+                ) : (
+                    <span className="w-4 shrink-0" aria-hidden="true" />
+                )}
+                <div className="min-w-0 truncate">{content}</div>
+            </div>
+        );
+    };
+
+    // Shift-click selects every row between the last toggled row and this one
+    const handleRowSelect = (
+        row: Row<T>,
+        index: number,
+        event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const lastIndex = lastSelectedIndexRef.current;
+        lastSelectedIndexRef.current = index;
+        const isShiftKey = (event.nativeEvent as MouseEvent).shiftKey;
+        if (!isShiftKey || lastIndex === null || !rows[lastIndex]) {
+            return toggleRowSelected(row, event.target.checked);
+        }
+
+        const [start, end] =
+            lastIndex < index ? [lastIndex, index] : [index, lastIndex];
+        const rangeRows = rows.slice(start, end + 1);
+        setRowSelection((prev) => {
+            const nextSelection = { ...prev };
+            rangeRows.forEach((rangeRow) => {
+                if (!rangeRow.getCanSelect()) return;
+                if (event.target.checked) nextSelection[rangeRow.id] = true;
+                else delete nextSelection[rangeRow.id];
+            });
+            return nextSelection;
+        });
+    };
+
+    const errorState: TableErrorState | null = queryError
+        ? { error: queryError, retry: retryQuery, isNextPage: isNextPageError }
+        : null;
 
     if (isLoading) {
         return (
@@ -225,7 +2085,13 @@ export function VirtualizedTable<
             role="region"
             aria-label="Data table"
             onKeyDown={handleKeyDown}
+            ref={setSectionElement}
         >
+            {/* Announce keyboard column resizing */}
+            <span className="sr-only" role="status" aria-live="polite">
+                {columnAnnouncement}
+            </span>
+
             {/* Header with row count */}
             <header className="mb-3">
                 <div className="flex items-center justify-between">
@@ -233,38 +2099,265 @@ export function VirtualizedTable<
                         <h2 className="text-lg font-semibold text-gray-900">
                             Data Table
                         </h2>
-                        {enableRowSelection && selectedRowCount > 0 && (
-                            <div className="flex items-center space-x-2">
-                                <div
-                                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
-                                    role="status"
-                                    aria-live="polite"
-                                    aria-label={`${selectedRowCount} row${
-                                        selectedRowCount === 1 ? "" : "s"
-                                    } selected out of ${totalSelectableRows}`}
-                                >
-                                    {selectedRowCount} selected
+                        {enableRowSelection &&
+                            (isAllMatching || selectedRowCount > 0) && (
+                                <div className="flex items-center space-x-2">
+                                    <div
+                                        className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                                        role="status"
+                                        aria-live="polite"
+                                        aria-label={
+                                            selectedCount === undefined
+                                                ? "All matching rows selected"
+                                                : `${selectedRowCount} row${
+                                                      selectedRowCount === 1
+                                                          ? ""
+                                                          : "s"
+                                                  } selected out of ${totalSelectableRows}`
+                                        }
+                                    >
+                                        {selectedCount === undefined
+                                            ? "All matching"
+                                            : selectedRowCount}{" "}
+                                        selected
+                                    </div>
+                                    <button
+                                        onClick={clearSelection}
+                                        className={clsx(
+                                            "text-xs text-gray-500 hover:text-gray-700 underline rounded",
+                                            "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
+                                            "cursor-pointer"
+                                        )}
+                                        aria-label="Clear all row selections"
+                                    >
+                                        Clear selection
+                                    </button>
                                 </div>
+                            )}
+                        {enableEditing && (
+                            <div
+                                className="flex items-center space-x-2"
+                                role="group"
+                                aria-label="Cell edit actions"
+                            >
                                 <button
-                                    onClick={() => setRowSelection({})}
-                                    className={clsx(
-                                        "text-xs text-gray-500 hover:text-gray-700 underline rounded",
-                                        "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
-                                        "cursor-pointer"
-                                    )}
-                                    aria-label="Clear all row selections"
+                                    onClick={editStore.undo}
+                                    className="inline-flex items-center px-2 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                    aria-label="Undo last cell edit"
+                                    title="Undo (Ctrl+Z)"
+                                >
+                                    Undo
+                                </button>
+                                <button
+                                    onClick={editStore.redo}
+                                    className="inline-flex items-center px-2 py-1 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                    aria-label="Redo last undone cell edit"
+                                    title="Redo (Ctrl+Y)"
+                                >
+                                    Redo
+                                </button>
+                                {dirtyRowCount > 0 && (
+                                    <>
+                                        <div
+                                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                                            role="status"
+                                            aria-live="polite"
+                                        >
+                                            {dirtyRowCount} unsaved row
+                                            {dirtyRowCount === 1 ? "" : "s"}
+                                        </div>
+                                        {onCommit && (
+                                            <button
+                                                onClick={commitChanges}
+                                                disabled={isCommitting}
+                                                className="inline-flex items-center px-2 py-1 shadow-sm text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                                aria-label="Save pending cell edits"
+                                            >
+                                                {isCommitting
+                                                    ? "Saving..."
+                                                    : "Save"}
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={discardChanges}
+                                            disabled={isCommitting}
+                                            className={clsx(
+                                                "text-xs text-gray-500 hover:text-gray-700 underline rounded",
+                                                "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
+                                                "cursor-pointer"
+                                            )}
+                                            aria-label="Discard pending cell edits"
+                                        >
+                                            Discard
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        {mutationError && (
+                            <div
+                                className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                                role="alert"
+                            >
+                                <span>{mutationError}</span>
+                                <button
+                                    onClick={() => setMutationError(null)}
+                                    className="rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    aria-label="Dismiss error"
                                 >
-                                    Clear selection
+                                    <IconClose
+                                        className="w-3.5 h-3.5"
+                                        fill="currentColor"
+                                        aria-hidden="true"
+                                    />
                                 </button>
                             </div>
                         )}
                     </div>
                     <div className="flex items-center space-x-2">
-                        {enableColumnToggling && (
-                            <div
-                                className="relative"
-                                data-column-toggle
+                        {enableGlobalFilter && (
+                            <div className="relative" role="search">
+                                <IconSearch
+                                    className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none"
+                                    aria-hidden="true"
+                                />
+                                <input
+                                    type="search"
+                                    className={clsx(
+                                        "w-56 pl-8 pr-7 py-1.5 text-xs text-gray-900 bg-white border border-gray-300 rounded-md shadow-sm",
+                                        "placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500",
+                                        "[&::-webkit-search-cancel-button]:hidden"
+                                    )}
+                                    value={searchValue}
+                                    onChange={(e) =>
+                                        setSearchValue(e.target.value)
+                                    }
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") {
+                                            setSearchValue(
+                                                e.currentTarget.value,
+                                                true
+                                            );
+                                        }
+                                    }}
+                                    placeholder={globalFilterPlaceholder}
+                                    aria-label="Search all columns"
+                                />
+                                {searchValue && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setSearchValue("", true)}
+                                        className="absolute right-1.5 top-1/2 -translate-y-1/2 rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        aria-label="Clear search"
+                                    >
+                                        <IconClose
+                                            className="w-4 h-4"
+                                            aria-hidden="true"
+                                        />
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {enableSorting && sorting.length > 0 && (
+                            <button
+                                onClick={() => table.resetSorting(true)}
+                                className={clsx(
+                                    "text-xs text-gray-500 hover:text-gray-700 underline rounded",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
+                                    "cursor-pointer"
+                                )}
+                                aria-label="Clear sorting on all columns"
+                            >
+                                Clear sort
+                            </button>
+                        )}
+                        {enableColumnFilters && columnFilters.length > 0 && (
+                            <button
+                                onClick={() => table.resetColumnFilters(true)}
+                                className={clsx(
+                                    "text-xs text-gray-500 hover:text-gray-700 underline rounded",
+                                    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
+                                    "cursor-pointer"
+                                )}
+                                aria-label="Clear all column filters"
                             >
+                                Clear filters
+                            </button>
+                        )}
+                        {enableColumnFilters && (
+                            <button
+                                onClick={() =>
+                                    setShowColumnFilters(!showColumnFilters)
+                                }
+                                className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                                aria-pressed={showColumnFilters}
+                                aria-label="Toggle column filters"
+                            >
+                                <IconTune
+                                    className={clsx("w-4 h-4 mr-1", {
+                                        "text-blue-600": showColumnFilters,
+                                    })}
+                                    aria-hidden="true"
+                                />
+                                <div className="flex items-center gap-1">
+                                    <span>Filters</span>
+                                    {columnFilters.length > 0 && (
+                                        <span
+                                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                                            aria-label={`${
+                                                columnFilters.length
+                                            } filter${
+                                                columnFilters.length === 1
+                                                    ? ""
+                                                    : "s"
+                                            } active`}
+                                        >
+                                            {columnFilters.length} active
+                                        </span>
+                                    )}
+                                </div>
+                            </button>
+                        )}
+                        {stateKey && (
+                            <TableViewsMenu
+                                views={views}
+                                activeView={activeView}
+                                isModified={isViewModified}
+                                onSelect={(viewId) =>
+                                    applyViewState(
+                                        selectView(viewId) ?? defaultViewState
+                                    )
+                                }
+                                onSave={(name) =>
+                                    saveView(name, getViewState())
+                                }
+                                onUpdate={(viewId) =>
+                                    updateView(viewId, getViewState())
+                                }
+                                onDelete={deleteView}
+                            />
+                        )}
+                        {enableExport && (
+                            <TableExportMenu
+                                rowCounts={{
+                                    selected: enableRowSelection
+                                        ? selectedCount
+                                        : 0,
+                                    loaded: table.getFilteredRowModel().rows
+                                        .length,
+                                    all: hasClientFilters
+                                        ? undefined
+                                        : totalDBRowCount,
+                                }}
+                                progress={exportProgress}
+                                error={exportError}
+                                onExport={exportData}
+                                onCancel={cancelExport}
+                                onDismissError={clearExportError}
+                            />
+                        )}
+                        {enableColumnToggling && (
+                            <div className="relative" data-column-toggle>
                                 <button
                                     onClick={() =>
                                         setShowColumnToggle(!showColumnToggle)
@@ -345,7 +2438,7 @@ export function VirtualizedTable<
                                 </button>
                                 {showColumnToggle && (
                                     <div
-                                        className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-200 z-50"
+                                        className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg border border-gray-200 z-50"
                                         role="menu"
                                         aria-label="Column visibility controls"
                                     >
@@ -365,23 +2458,115 @@ export function VirtualizedTable<
                                                                   .header
                                                             : column.id;
                                                     return (
-                                                        <label
+                                                        <div
                                                             key={column.id}
-                                                            className="flex items-center px-3 py-2 hover:bg-gray-50 cursor-pointer"
-                                                            role="menuitemcheckbox"
-                                                            aria-checked={column.getIsVisible()}
+                                                            className="flex items-center pr-2 hover:bg-gray-50"
                                                         >
-                                                            <input
-                                                                type="checkbox"
-                                                                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-3"
-                                                                checked={column.getIsVisible()}
-                                                                onChange={column.getToggleVisibilityHandler()}
-                                                                aria-label={`Toggle ${columnName} column visibility`}
-                                                            />
-                                                            <span className="text-sm text-gray-700">
-                                                                {columnName}
-                                                            </span>
-                                                        </label>
+                                                            <label
+                                                                className="flex flex-1 items-center px-3 py-2 cursor-pointer"
+                                                                role="menuitemcheckbox"
+                                                                aria-checked={column.getIsVisible()}
+                                                            >
+                                                                <input
+                                                                    type="checkbox"
+                                                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-3"
+                                                                    checked={column.getIsVisible()}
+                                                                    onChange={column.getToggleVisibilityHandler()}
+                                                                    aria-label={`Toggle ${columnName} column visibility`}
+                                                                />
+                                                                <span className="text-sm text-gray-700">
+                                                                    {columnName}
+                                                                </span>
+                                                            </label>
+                                                            {enableColumnReordering && (
+                                                                <>
+                                                                    <button
+                                                                        type="button"
+                                                                        className={
+                                                                            columnMoveButtonClassName
+                                                                        }
+                                                                        onClick={() =>
+                                                                            moveColumn(
+                                                                                column.id,
+                                                                                -1
+                                                                            )
+                                                                        }
+                                                                        disabled={
+                                                                            !getMoveTargetId(
+                                                                                column.id,
+                                                                                -1
+                                                                            )
+                                                                        }
+                                                                        aria-label={`Move ${columnName} column left`}
+                                                                    >
+                                                                        ‹
+                                                                    </button>
+                                                                    <button
+                                                                        type="button"
+                                                                        className={
+                                                                            columnMoveButtonClassName
+                                                                        }
+                                                                        onClick={() =>
+                                                                            moveColumn(
+                                                                                column.id,
+                                                                                1
+                                                                            )
+                                                                        }
+                                                                        disabled={
+                                                                            !getMoveTargetId(
+                                                                                column.id,
+                                                                                1
+                                                                            )
+                                                                        }
+                                                                        aria-label={`Move ${columnName} column right`}
+                                                                    >
+                                                                        ›
+                                                                    </button>
+                                                                </>
+                                                            )}
+                                                            {enableColumnPinning &&
+                                                                column.getCanPin() &&
+                                                                (
+                                                                    [
+                                                                        "left",
+                                                                        "right",
+                                                                    ] as const
+                                                                ).map(
+                                                                    (side) => (
+                                                                        <button
+                                                                            key={
+                                                                                side
+                                                                            }
+                                                                            type="button"
+                                                                            className={
+                                                                                columnPinButtonClassName
+                                                                            }
+                                                                            onClick={() =>
+                                                                                pinColumn(
+                                                                                    column,
+                                                                                    side
+                                                                                )
+                                                                            }
+                                                                            aria-pressed={
+                                                                                column.getIsPinned() ===
+                                                                                side
+                                                                            }
+                                                                            aria-label={`Pin ${columnName} column ${side}`}
+                                                                            title={
+                                                                                column.getIsPinned() ===
+                                                                                side
+                                                                                    ? "Unpin"
+                                                                                    : `Pin ${side}`
+                                                                            }
+                                                                        >
+                                                                            {side ===
+                                                                            "left"
+                                                                                ? "⇤"
+                                                                                : "⇥"}
+                                                                        </button>
+                                                                    )
+                                                                )}
+                                                        </div>
                                                     );
                                                 })}
                                             <div
@@ -421,6 +2606,20 @@ export function VirtualizedTable<
                                                     Show All
                                                 </button>
                                             </div>
+                                            {enableColumnResizing && (
+                                                <button
+                                                    onClick={() =>
+                                                        autoFitColumns()
+                                                    }
+                                                    className={clsx(
+                                                        "w-full px-3 py-2 text-xs text-center border-t border-gray-100",
+                                                        "text-gray-700 hover:bg-gray-50 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                                                    )}
+                                                    aria-label="Auto-fit all column widths"
+                                                >
+                                                    Auto-fit All
+                                                </button>
+                                            )}
                                         </div>
                                     </div>
                                 )}
@@ -430,10 +2629,25 @@ export function VirtualizedTable<
                             className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
                             role="status"
                             aria-live="polite"
-                            aria-label={`Showing ${totalFetched.toLocaleString()} of ${totalDBRowCount.toLocaleString()} total rows`}
+                            aria-label={
+                                totalDBRowCount !== undefined
+                                    ? `Showing ${totalFetched.toLocaleString()} of ${totalDBRowCount.toLocaleString()} total rows`
+                                    : `Showing ${totalFetched.toLocaleString()} rows${
+                                          hasNextPage ? ", more available" : ""
+                                      }`
+                            }
                         >
-                            {totalFetched.toLocaleString()} of{" "}
-                            {totalDBRowCount.toLocaleString()} rows
+                            {totalDBRowCount !== undefined ? (
+                                <>
+                                    {totalFetched.toLocaleString()} of{" "}
+                                    {totalDBRowCount.toLocaleString()} rows
+                                </>
+                            ) : (
+                                <>
+                                    {totalFetched.toLocaleString()}
+                                    {hasNextPage ? "+" : ""} rows
+                                </>
+                            )}
                         </div>
                         {isFetching && (
                             <div
@@ -455,14 +2669,63 @@ export function VirtualizedTable<
                 </div>
             </header>
 
+            {/* Select all matching rows banner */}
+            {(showSelectAllMatching ||
+                (enableRowSelection && isAllMatching)) && (
+                <div
+                    className="flex items-center justify-center gap-2 mb-2 px-3 py-2 text-xs text-blue-800 bg-blue-50 border border-blue-200 rounded-md"
+                    role="status"
+                    aria-live="polite"
+                >
+                    <span>
+                        {isAllMatching
+                            ? selectedCount === undefined
+                                ? "All matching rows are selected."
+                                : `${selectedCount} matching row${
+                                      selectedCount === 1 ? "" : "s"
+                                  } selected.`
+                            : `All ${rows.length} ${
+                                  isPaged ? "rows on this page" : "loaded rows"
+                              } are selected.`}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={
+                            isAllMatching ? clearSelection : selectAllMatching
+                        }
+                        className="font-medium underline rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {isAllMatching
+                            ? "Clear selection"
+                            : totalSelectableRows > rows.length &&
+                              !hasClientFilters
+                            ? `Select all ${totalSelectableRows} matching rows`
+                            : "Select all matching rows"}
+                    </button>
+                </div>
+            )}
+
             {/* Table container */}
             <div
                 className={clsx(
                     "relative",
                     containerClassName,
-                    "border border-gray-300"
+                    "border border-gray-300",
+                    { "select-none": isSelectingCells }
                 )}
                 onScroll={(e) => fetchMoreOnBottomReached(e.currentTarget)}
+                onKeyDown={handleGridKeyDown}
+                onFocus={(e) => {
+                    // Tabbing in while the focused cell is scrolled away
+                    if (
+                        e.target === e.currentTarget &&
+                        e.currentTarget.matches(":focus-visible")
+                    ) {
+                        focusGridCell(activeCell);
+                    }
+                }}
+                onCopy={handleCopy}
+                onPaste={handlePaste}
                 ref={tableContainerRef}
                 style={{
                     overflow: "auto",
@@ -472,47 +2735,58 @@ export function VirtualizedTable<
                             ? pxToRem(containerHeight)
                             : containerHeight,
                 }}
-                role="application"
-                aria-label="Scrollable data table"
-                tabIndex={0}
+                tabIndex={isActiveCellRendered ? -1 : 0}
             >
                 <table
-                    style={{ display: "grid" }}
+                    style={{
+                        display: "grid",
+                        // Rows span every column so pinned cells stay stuck
+                        minWidth: `calc(${
+                            selectionColumnWidth + INDEX_COLUMN_WIDTH
+                        }px + ${pxToRem(table.getTotalSize())})`,
+                    }}
                     className="w-full"
-                    role="table"
+                    role="grid"
                     aria-label="Data table with sortable columns"
-                    aria-rowcount={totalDBRowCount}
-                    aria-colcount={
-                        table.getAllLeafColumns().length +
-                        (enableRowSelection ? 1 : 0) +
-                        1
+                    aria-multiselectable={enableRowSelection || undefined}
+                    aria-rowcount={
+                        totalDBRowCount !== undefined
+                            ? totalDBRowCount +
+                              headerRowCount +
+                              (hasFooter ? 1 : 0)
+                            : -1
                     }
+                    aria-colcount={visibleColumns.length + leadingColumnCount}
                 >
                     <thead
                         style={{
                             display: "grid",
                             position: "sticky",
                             top: 0,
-                            zIndex: 1,
+                            zIndex: 2,
                         }}
                         className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200"
                         role="rowgroup"
                     >
-                        {table.getHeaderGroups().map((headerGroup) => (
+                        {table.getHeaderGroups().map((headerGroup, index) => (
                             <tr
                                 key={headerGroup.id}
                                 style={{ display: "flex", width: "100%" }}
                                 role="row"
+                                aria-rowindex={index + 1}
                             >
                                 {enableRowSelection && (
                                     <th
-                                        style={{
-                                            display: "flex",
-                                            width: "48px",
-                                            position: "relative",
-                                        }}
-                                        className="px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200"
+                                        style={getLeadingCellStyle(
+                                            0,
+                                            SELECTION_COLUMN_WIDTH
+                                        )}
+                                        className={clsx(
+                                            "px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200",
+                                            { "bg-gray-50": pinLeadingColumns }
+                                        )}
                                         role="columnheader"
+                                        aria-colindex={1}
                                         aria-label="Select all rows"
                                     >
                                         <div className="flex items-center">
@@ -525,7 +2799,14 @@ export function VirtualizedTable<
                                                         el.indeterminate =
                                                             table.getIsSomeRowsSelected();
                                                 }}
-                                                onChange={table.getToggleAllRowsSelectedHandler()}
+                                                onChange={(e) =>
+                                                    // Unchecking drops "all matching rows" too
+                                                    isAllMatching
+                                                        ? clearSelection()
+                                                        : table.toggleAllRowsSelected(
+                                                              e.target.checked
+                                                          )
+                                                }
                                                 aria-label={
                                                     table.getIsAllRowsSelected()
                                                         ? "Deselect all rows"
@@ -539,191 +2820,479 @@ export function VirtualizedTable<
                                 )}
                                 {/* Row Index Column */}
                                 <th
-                                    style={{
-                                        display: "flex",
-                                        width: "60px",
-                                        position: "relative",
-                                    }}
-                                    className="px-4 py-3 text-center text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200"
+                                    style={getLeadingCellStyle(
+                                        selectionColumnWidth,
+                                        INDEX_COLUMN_WIDTH
+                                    )}
+                                    className={clsx(
+                                        "px-4 py-3 text-center text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200",
+                                        leadingEdgeClassName,
+                                        { "bg-gray-50": pinLeadingColumns }
+                                    )}
                                     role="columnheader"
+                                    aria-colindex={leadingColumnCount}
                                     aria-label="Row number"
                                 >
                                     <div className="flex items-center justify-center">
                                         <span>No.</span>
                                     </div>
                                 </th>
-                                {headerGroup.headers.map((header) => {
-                                    const canSort = header.column.getCanSort();
-                                    const sortDirection =
-                                        header.column.getIsSorted();
+                                {renderHeaderCells(
+                                    headerGroup,
+                                    (header, columnIndexes) => {
+                                        const firstColumn =
+                                            visibleColumns[columnIndexes[0]];
+                                        const lastColumn =
+                                            visibleColumns[
+                                                columnIndexes[
+                                                    columnIndexes.length - 1
+                                                ]
+                                            ];
+                                        // Only leaf headers sort, move and resize
+                                        // their column
+                                        const isLeafHeader =
+                                            !header.subHeaders.length;
+                                        const headerStyle: React.CSSProperties =
+                                            {
+                                                display: "flex",
+                                                width: pxToRem(
+                                                    columnIndexes.reduce(
+                                                        (width, columnIndex) =>
+                                                            width +
+                                                            visibleColumns[
+                                                                columnIndex
+                                                            ].getSize(),
+                                                        0
+                                                    )
+                                                ),
+                                                ...getPinnedColumnStyle(
+                                                    firstColumn.getIsPinned() ===
+                                                        "right"
+                                                        ? lastColumn
+                                                        : firstColumn,
+                                                    pinnedLeadingWidth
+                                                ),
+                                            };
+                                        const headerClassName = clsx(
+                                            "px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200 last:border-r-0",
+                                            lastColumn.getIsPinned() === "left"
+                                                ? getPinnedEdgeClassName(
+                                                      lastColumn
+                                                  )
+                                                : getPinnedEdgeClassName(
+                                                      firstColumn
+                                                  ),
+                                            {
+                                                "bg-gray-50":
+                                                    !!firstColumn.getIsPinned(),
+                                                "opacity-50":
+                                                    isLeafHeader &&
+                                                    draggedColumnId ===
+                                                        header.column.id,
+                                            }
+                                        );
+                                        // Headers split by pinning render once per side
+                                        const headerKey = isLeafHeader
+                                            ? header.id
+                                            : `${header.id}:${columnIndexes[0]}`;
+                                        const colIndex =
+                                            columnIndexes[0] +
+                                            leadingColumnCount +
+                                            1;
+                                        const colSpan =
+                                            columnIndexes.length > 1
+                                                ? columnIndexes.length
+                                                : undefined;
+
+                                        if (header.isPlaceholder) {
+                                            return (
+                                                <th
+                                                    key={headerKey}
+                                                    style={headerStyle}
+                                                    className={headerClassName}
+                                                    role="columnheader"
+                                                    aria-colindex={colIndex}
+                                                    aria-colspan={colSpan}
+                                                />
+                                            );
+                                        }
+
+                                        const canSort =
+                                            header.column.getCanSort();
+                                        const sortDirection =
+                                            header.column.getIsSorted();
+                                        // Only numbered while several columns sort
+                                        const sortPriority =
+                                            sorting.length > 1 && sortDirection
+                                                ? header.column.getSortIndex() +
+                                                  1
+                                                : undefined;
+                                        const columnName =
+                                            typeof header.column.columnDef
+                                                .header === "string"
+                                                ? header.column.columnDef.header
+                                                : header.id;
+
+                                        return (
+                                            <th
+                                                key={headerKey}
+                                                data-column-id={
+                                                    header.column.id
+                                                }
+                                                aria-colindex={colIndex}
+                                                aria-colspan={colSpan}
+                                                {...(isLeafHeader &&
+                                                    getDropTargetProps(
+                                                        header.column.id
+                                                    ))}
+                                                style={headerStyle}
+                                                className={headerClassName}
+                                                role="columnheader"
+                                                aria-sort={
+                                                    !canSort
+                                                        ? "none"
+                                                        : sortDirection ===
+                                                          "asc"
+                                                        ? "ascending"
+                                                        : sortDirection ===
+                                                          "desc"
+                                                        ? "descending"
+                                                        : "none"
+                                                }
+                                                aria-label={
+                                                    canSort
+                                                        ? `${columnName}, sortable column, ${
+                                                              sortDirection ===
+                                                              "asc"
+                                                                  ? "sorted ascending"
+                                                                  : sortDirection ===
+                                                                    "desc"
+                                                                  ? "sorted descending"
+                                                                  : "not sorted"
+                                                          }${
+                                                              sortPriority
+                                                                  ? `, sort priority ${sortPriority}`
+                                                                  : ""
+                                                          }`
+                                                        : columnName
+                                                }
+                                            >
+                                                {columnDropTarget?.columnId ===
+                                                    header.column.id && (
+                                                    <span
+                                                        className={clsx(
+                                                            "absolute top-0 h-full w-0.5 bg-blue-600 pointer-events-none z-10",
+                                                            columnDropTarget.position ===
+                                                                "before"
+                                                                ? "left-0"
+                                                                : "right-0"
+                                                        )}
+                                                        aria-hidden="true"
+                                                    />
+                                                )}
+                                                <div
+                                                    {...(isLeafHeader &&
+                                                        getDragHandleProps(
+                                                            header.column.id
+                                                        ))}
+                                                    {...{
+                                                        className:
+                                                            header.column.getCanSort()
+                                                                ? "cursor-pointer select-none flex items-center space-x-1 hover:text-gray-900 transition-colors duration-150 group focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded"
+                                                                : "flex items-center",
+                                                        onClick: enableSorting
+                                                            ? header.column.getToggleSortingHandler()
+                                                            : undefined,
+                                                        onKeyDown:
+                                                            enableSorting &&
+                                                            canSort
+                                                                ? (
+                                                                      e: React.KeyboardEvent
+                                                                  ) => {
+                                                                      if (
+                                                                          e.key ===
+                                                                              "Enter" ||
+                                                                          e.key ===
+                                                                              " "
+                                                                      ) {
+                                                                          e.preventDefault();
+                                                                          header.column.getToggleSortingHandler()?.(
+                                                                              e
+                                                                          );
+                                                                      }
+                                                                  }
+                                                                : undefined,
+                                                        tabIndex:
+                                                            enableSorting &&
+                                                            canSort
+                                                                ? 0
+                                                                : -1,
+                                                        role: canSort
+                                                            ? "button"
+                                                            : undefined,
+                                                        title:
+                                                            enableSorting &&
+                                                            canSort
+                                                                ? "Shift+click to sort by several columns"
+                                                                : undefined,
+                                                    }}
+                                                >
+                                                    <span>
+                                                        {flexRender(
+                                                            header.column
+                                                                .columnDef
+                                                                .header,
+                                                            header.getContext()
+                                                        )}
+                                                    </span>
+                                                    {enableSorting &&
+                                                        header.column.getCanSort() && (
+                                                            <span
+                                                                className="ml-1 inline-flex items-center"
+                                                                aria-hidden="true"
+                                                            >
+                                                                {header.column.getIsSorted() ===
+                                                                "asc" ? (
+                                                                    <svg
+                                                                        className="w-4 h-4 text-blue-600"
+                                                                        fill="currentColor"
+                                                                        viewBox="0 0 20 20"
+                                                                    >
+                                                                        <path
+                                                                            fillRule="evenodd"
+                                                                            d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z"
+                                                                            clipRule="evenodd"
+                                                                        />
+                                                                    </svg>
+                                                                ) : header.column.getIsSorted() ===
+                                                                  "desc" ? (
+                                                                    <svg
+                                                                        className="w-4 h-4 text-blue-600"
+                                                                        fill="currentColor"
+                                                                        viewBox="0 0 20 20"
+                                                                    >
+                                                                        <path
+                                                                            fillRule="evenodd"
+                                                                            d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"
+                                                                            clipRule="evenodd"
+                                                                        />
+                                                                    </svg>
+                                                                ) : (
+                                                                    <svg
+                                                                        className="w-4 h-4 text-gray-400 group-hover:text-gray-600"
+                                                                        fill="currentColor"
+                                                                        viewBox="0 0 20 20"
+                                                                    >
+                                                                        <path d="M5 12a1 1 0 102 0V6.414l1.293 1.293a1 1 0 001.414-1.414l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L5 6.414V12zM15 8a1 1 0 10-2 0v5.586l-1.293-1.293a1 1 0 00-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L15 13.586V8z" />
+                                                                    </svg>
+                                                                )}
+                                                                {sortPriority && (
+                                                                    <span className="min-w-3.5 h-3.5 px-0.5 rounded-full bg-blue-100 text-[10px] leading-3.5 text-center text-blue-700">
+                                                                        {
+                                                                            sortPriority
+                                                                        }
+                                                                    </span>
+                                                                )}
+                                                            </span>
+                                                        )}
+                                                </div>
+                                                {enableGrouping &&
+                                                    header.column.getCanGroup() && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={header.column.getToggleGroupingHandler()}
+                                                            className={clsx(
+                                                                "flex items-start ml-auto mr-1 px-1 rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500",
+                                                                header.column.getIsGrouped()
+                                                                    ? "text-blue-600"
+                                                                    : "text-gray-400 hover:text-gray-700"
+                                                            )}
+                                                            aria-pressed={header.column.getIsGrouped()}
+                                                            aria-label={`Group by ${columnName}`}
+                                                            title="Group by this column"
+                                                        >
+                                                            <IconGroup className="w-4 h-4" />
+                                                            {header.column.getIsGrouped() && (
+                                                                <sup>
+                                                                    {header.column.getGroupedIndex() +
+                                                                        1}
+                                                                </sup>
+                                                            )}
+                                                        </button>
+                                                    )}
+                                                {enableColumnResizing &&
+                                                    isLeafHeader && (
+                                                        <div
+                                                            onMouseDown={header.getResizeHandler()}
+                                                            onTouchStart={header.getResizeHandler()}
+                                                            className={`absolute right-0 top-0 h-full w-1 cursor-col-resize select-none touch-none hover:bg-blue-500 transition-colors duration-150 ${
+                                                                header.column.getIsResizing()
+                                                                    ? "bg-blue-600"
+                                                                    : "bg-transparent"
+                                                            }`}
+                                                            style={{
+                                                                userSelect:
+                                                                    "none",
+                                                                touchAction:
+                                                                    "none",
+                                                            }}
+                                                            role="separator"
+                                                            aria-orientation="vertical"
+                                                            aria-label={`Resize ${columnName} column`}
+                                                            aria-valuenow={header.getSize()}
+                                                            aria-valuemin={
+                                                                header.column
+                                                                    .columnDef
+                                                                    .minSize
+                                                            }
+                                                            aria-valuemax={
+                                                                header.column
+                                                                    .columnDef
+                                                                    .maxSize
+                                                            }
+                                                            tabIndex={0}
+                                                            onDoubleClick={() =>
+                                                                autoFitColumns([
+                                                                    header
+                                                                        .column
+                                                                        .id,
+                                                                ])
+                                                            }
+                                                            onKeyDown={(e) => {
+                                                                // Shift resizes in larger steps
+                                                                const step =
+                                                                    e.shiftKey
+                                                                        ? 50
+                                                                        : 10;
+                                                                if (
+                                                                    e.key ===
+                                                                        "ArrowLeft" ||
+                                                                    e.key ===
+                                                                        "ArrowRight"
+                                                                ) {
+                                                                    resizeColumn(
+                                                                        header.column,
+                                                                        header.getSize() +
+                                                                            (e.key ===
+                                                                            "ArrowLeft"
+                                                                                ? -step
+                                                                                : step)
+                                                                    );
+                                                                } else if (
+                                                                    e.key ===
+                                                                    "Enter"
+                                                                ) {
+                                                                    autoFitColumns(
+                                                                        [
+                                                                            header
+                                                                                .column
+                                                                                .id,
+                                                                        ]
+                                                                    );
+                                                                } else {
+                                                                    return;
+                                                                }
+                                                                // Keep arrow keys away from grid navigation
+                                                                e.preventDefault();
+                                                                e.stopPropagation();
+                                                            }}
+                                                        />
+                                                    )}
+                                            </th>
+                                        );
+                                    }
+                                )}
+                            </tr>
+                        ))}
+                        {enableColumnFilters && showColumnFilters && (
+                            <tr
+                                style={{ display: "flex", width: "100%" }}
+                                className="bg-white border-t border-gray-200"
+                                role="row"
+                                aria-rowindex={headerRowCount}
+                                aria-label="Column filters"
+                            >
+                                {enableRowSelection && (
+                                    <th
+                                        style={getLeadingCellStyle(
+                                            0,
+                                            SELECTION_COLUMN_WIDTH
+                                        )}
+                                        className="bg-white border-r border-gray-200"
+                                        role="columnheader"
+                                        aria-colindex={1}
+                                    />
+                                )}
+                                <th
+                                    style={getLeadingCellStyle(
+                                        selectionColumnWidth,
+                                        INDEX_COLUMN_WIDTH
+                                    )}
+                                    className={clsx(
+                                        "bg-white border-r border-gray-200",
+                                        leadingEdgeClassName
+                                    )}
+                                    role="columnheader"
+                                    aria-colindex={leadingColumnCount}
+                                />
+                                {renderColumnCells((columnIndex) => {
+                                    const column = visibleColumns[columnIndex];
                                     const columnName =
-                                        typeof header.column.columnDef
-                                            .header === "string"
-                                            ? header.column.columnDef.header
-                                            : header.id;
+                                        typeof column.columnDef.header ===
+                                        "string"
+                                            ? column.columnDef.header
+                                            : column.id;
 
                                     return (
                                         <th
-                                            key={header.id}
+                                            key={column.id}
                                             style={{
                                                 display: "flex",
                                                 width: pxToRem(
-                                                    header.getSize()
+                                                    column.getSize()
+                                                ),
+                                                ...getPinnedColumnStyle(
+                                                    column,
+                                                    pinnedLeadingWidth
                                                 ),
-                                                position: "relative",
                                             }}
-                                            className="px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200 last:border-r-0"
+                                            className={clsx(
+                                                "px-2 py-1.5 text-left border-r border-gray-200 last:border-r-0 items-center",
+                                                getPinnedEdgeClassName(column),
+                                                {
+                                                    "bg-white":
+                                                        !!column.getIsPinned(),
+                                                }
+                                            )}
                                             role="columnheader"
-                                            aria-sort={
-                                                !canSort
-                                                    ? "none"
-                                                    : sortDirection === "asc"
-                                                    ? "ascending"
-                                                    : sortDirection === "desc"
-                                                    ? "descending"
-                                                    : "none"
-                                            }
-                                            aria-label={
-                                                canSort
-                                                    ? `${columnName}, sortable column, ${
-                                                          sortDirection ===
-                                                          "asc"
-                                                              ? "sorted ascending"
-                                                              : sortDirection ===
-                                                                "desc"
-                                                              ? "sorted descending"
-                                                              : "not sorted"
-                                                      }`
-                                                    : columnName
+                                            aria-colindex={
+                                                columnIndex +
+                                                leadingColumnCount +
+                                                1
                                             }
                                         >
-                                            <div
-                                                {...{
-                                                    className:
-                                                        header.column.getCanSort()
-                                                            ? "cursor-pointer select-none flex items-center space-x-1 hover:text-gray-900 transition-colors duration-150 group focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded"
-                                                            : "flex items-center",
-                                                    onClick: enableSorting
-                                                        ? header.column.getToggleSortingHandler()
-                                                        : undefined,
-                                                    onKeyDown:
-                                                        enableSorting && canSort
-                                                            ? (
-                                                                  e: React.KeyboardEvent
-                                                              ) => {
-                                                                  if (
-                                                                      e.key ===
-                                                                          "Enter" ||
-                                                                      e.key ===
-                                                                          " "
-                                                                  ) {
-                                                                      e.preventDefault();
-                                                                      header.column.getToggleSortingHandler()?.(
-                                                                          e
-                                                                      );
-                                                                  }
-                                                              }
-                                                            : undefined,
-                                                    tabIndex:
-                                                        enableSorting && canSort
-                                                            ? 0
-                                                            : -1,
-                                                    role: canSort
-                                                        ? "button"
-                                                        : undefined,
-                                                }}
-                                            >
-                                                <span>
-                                                    {flexRender(
-                                                        header.column.columnDef
-                                                            .header,
-                                                        header.getContext()
-                                                    )}
-                                                </span>
-                                                {enableSorting &&
-                                                    header.column.getCanSort() && (
-                                                        <span
-                                                            className="ml-1"
-                                                            aria-hidden="true"
-                                                        >
-                                                            {header.column.getIsSorted() ===
-                                                            "asc" ? (
-                                                                <svg
-                                                                    className="w-4 h-4 text-blue-600"
-                                                                    fill="currentColor"
-                                                                    viewBox="0 0 20 20"
-                                                                >
-                                                                    <path
-                                                                        fillRule="evenodd"
-                                                                        d="M14.707 12.707a1 1 0 01-1.414 0L10 9.414l-3.293 3.293a1 1 0 01-1.414-1.414l4-4a1 1 0 011.414 0l4 4a1 1 0 010 1.414z"
-                                                                        clipRule="evenodd"
-                                                                    />
-                                                                </svg>
-                                                            ) : header.column.getIsSorted() ===
-                                                              "desc" ? (
-                                                                <svg
-                                                                    className="w-4 h-4 text-blue-600"
-                                                                    fill="currentColor"
-                                                                    viewBox="0 0 20 20"
-                                                                >
-                                                                    <path
-                                                                        fillRule="evenodd"
-                                                                        d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"
-                                                                        clipRule="evenodd"
-                                                                    />
-                                                                </svg>
-                                                            ) : (
-                                                                <svg
-                                                                    className="w-4 h-4 text-gray-400 group-hover:text-gray-600"
-                                                                    fill="currentColor"
-                                                                    viewBox="0 0 20 20"
-                                                                >
-                                                                    <path d="M5 12a1 1 0 102 0V6.414l1.293 1.293a1 1 0 001.414-1.414l-3-3a1 1 0 00-1.414 0l-3 3a1 1 0 001.414 1.414L5 6.414V12zM15 8a1 1 0 10-2 0v5.586l-1.293-1.293a1 1 0 00-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L15 13.586V8z" />
-                                                                </svg>
-                                                            )}
-                                                        </span>
-                                                    )}
-                                            </div>
-                                            {enableColumnResizing && (
-                                                <div
-                                                    onMouseDown={header.getResizeHandler()}
-                                                    onTouchStart={header.getResizeHandler()}
-                                                    className={`absolute right-0 top-0 h-full w-1 cursor-col-resize select-none touch-none hover:bg-blue-500 transition-colors duration-150 ${
-                                                        header.column.getIsResizing()
-                                                            ? "bg-blue-600"
-                                                            : "bg-transparent"
-                                                    }`}
-                                                    style={{
-                                                        userSelect: "none",
-                                                        touchAction: "none",
-                                                    }}
-                                                    role="separator"
-                                                    aria-label={`Resize ${columnName} column`}
-                                                    tabIndex={0}
-                                                    onKeyDown={(e) => {
-                                                        if (
-                                                            e.key === "Enter" ||
-                                                            e.key === " "
-                                                        ) {
-                                                            e.preventDefault();
-                                                            // Focus management for keyboard users
-                                                            (
-                                                                e.target as HTMLElement
-                                                            ).focus();
-                                                        }
-                                                    }}
+                                            {column.getCanFilter() && (
+                                                <ColumnFilter
+                                                    column={column}
+                                                    columnName={columnName}
+                                                    isServerFiltering={
+                                                        isServerFiltering
+                                                    }
                                                 />
                                             )}
                                         </th>
                                     );
-                                })}
+                                }, "th")}
                             </tr>
-                        ))}
+                        )}
                     </thead>
                     <tbody
                         style={{
                             display: "grid",
-                            height: rowVirtualizer.getTotalSize(),
+                            // Leaves room for the empty or error state
+                            height: rows.length
+                                ? rowVirtualizer.getTotalSize()
+                                : undefined,
                             position: "relative",
                         }}
                         role="rowgroup"
@@ -731,7 +3300,19 @@ export function VirtualizedTable<
                         {rowVirtualizer.getVirtualItems().map((virtualRow) => {
                             const row = rows[virtualRow.index] as Row<T>;
                             const isEven = virtualRow.index % 2 === 0;
-                            const rowNumber = virtualRow.index + 1;
+                            const rowNumber =
+                                rowIndexOffset + virtualRow.index + 1;
+                            const visibleCells = row.getVisibleCells();
+                            const isGroupRow = row.getIsGrouped();
+                            const hasDetail =
+                                !!renderDetail &&
+                                !isGroupRow &&
+                                row.getIsExpanded();
+                            // Opaque so scrolled cells don't show through
+                            const pinnedCellClassName = clsx(
+                                isEven ? "bg-white" : "bg-gray-50",
+                                "group-hover:bg-blue-50"
+                            );
 
                             return (
                                 <tr
@@ -743,83 +3324,482 @@ export function VirtualizedTable<
                                     className={clsx(
                                         rowClassName?.(row),
                                         isEven ? "bg-white" : "bg-gray-50/30",
-                                        "hover:bg-blue-50 transition-colors duration-150 border-b border-gray-100"
+                                        "group hover:bg-blue-50 transition-colors duration-150 border-b border-gray-100",
+                                        { "font-medium": isGroupRow }
                                     )}
                                     style={{
                                         display: "flex",
+                                        flexWrap: hasDetail
+                                            ? "wrap"
+                                            : undefined,
                                         position: "absolute",
                                         transform: `translateY(${virtualRow.start}px)`,
                                         width: "100%",
                                     }}
                                     role="row"
-                                    aria-rowindex={rowNumber}
+                                    aria-rowindex={rowNumber + headerRowCount}
                                     aria-selected={
                                         enableRowSelection
-                                            ? row.getIsSelected()
+                                            ? isGroupRow
+                                                ? row.getIsAllSubRowsSelected()
+                                                : row.getIsSelected()
+                                            : undefined
+                                    }
+                                    aria-expanded={
+                                        row.getCanExpand()
+                                            ? row.getIsExpanded()
                                             : undefined
                                     }
                                 >
                                     {enableRowSelection && (
                                         <td
-                                            style={{
-                                                display: "flex",
-                                                width: "48px",
-                                                position: "relative",
-                                            }}
-                                            className="px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200"
-                                            role="cell"
+                                            style={getLeadingCellStyle(
+                                                0,
+                                                SELECTION_COLUMN_WIDTH
+                                            )}
+                                            className={clsx(
+                                                "px-4 py-3 text-left text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200",
+                                                {
+                                                    [pinnedCellClassName]:
+                                                        pinLeadingColumns,
+                                                }
+                                            )}
+                                            role="gridcell"
+                                            aria-colindex={1}
                                         >
                                             <div className="flex items-center">
                                                 <input
                                                     type="checkbox"
                                                     className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                                                    checked={row.getIsSelected()}
-                                                    onChange={row.getToggleSelectedHandler()}
-                                                    aria-label={`Select row ${rowNumber}`}
+                                                    checked={
+                                                        isGroupRow
+                                                            ? row.getIsAllSubRowsSelected()
+                                                            : row.getIsSelected()
+                                                    }
+                                                    ref={(el) => {
+                                                        if (el)
+                                                            el.indeterminate =
+                                                                isGroupRow &&
+                                                                row.getIsSomeSelected();
+                                                    }}
+                                                    // Space on any cell toggles the row instead
+                                                    tabIndex={-1}
+                                                    onChange={(e) =>
+                                                        handleRowSelect(
+                                                            row,
+                                                            virtualRow.index,
+                                                            e
+                                                        )
+                                                    }
+                                                    aria-label={
+                                                        isGroupRow
+                                                            ? `Select group ${String(
+                                                                  row.groupingValue
+                                                              )}`
+                                                            : `Select row ${rowNumber}`
+                                                    }
                                                 />
                                             </div>
                                         </td>
                                     )}
                                     {/* Row Index Cell */}
                                     <td
-                                        style={{
-                                            display: "flex",
-                                            width: "60px",
-                                            position: "relative",
-                                        }}
-                                        className="px-4 py-3 text-center text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200"
-                                        role="cell"
-                                        aria-label={`Row ${rowNumber}`}
+                                        style={getLeadingCellStyle(
+                                            selectionColumnWidth,
+                                            INDEX_COLUMN_WIDTH
+                                        )}
+                                        className={clsx(
+                                            "px-4 py-3 text-center text-xs font-semibold text-gray-700 tracking-wider border-r border-gray-200",
+                                            leadingEdgeClassName,
+                                            {
+                                                [pinnedCellClassName]:
+                                                    pinLeadingColumns,
+                                            }
+                                        )}
+                                        role="rowheader"
+                                        aria-colindex={leadingColumnCount}
+                                        aria-label={
+                                            isGroupRow
+                                                ? `Group ${String(
+                                                      row.groupingValue
+                                                  )}`
+                                                : `Row ${rowNumber}`
+                                        }
                                     >
-                                        <div className="flex items-center justify-center w-full">
-                                            <span>{rowNumber}</span>
-                                        </div>
+                                        {!isGroupRow && (
+                                            <div className="flex items-center justify-center w-full">
+                                                <span>{rowNumber}</span>
+                                            </div>
+                                        )}
                                     </td>
-                                    {row.getVisibleCells().map((cell) => (
+                                    {renderColumnCells((columnIndex) => {
+                                        const cell = visibleCells[columnIndex];
+                                        const columnMeta =
+                                            cell.column.columnDef.meta;
+                                        const cellPosition = {
+                                            rowIndex: virtualRow.index,
+                                            columnIndex,
+                                        };
+                                        const isInRange = isCellInRange(
+                                            virtualRow.index,
+                                            columnIndex
+                                        );
+                                        const isActiveCell =
+                                            activeCell.rowIndex ===
+                                                virtualRow.index &&
+                                            activeCell.columnIndex ===
+                                                columnIndex;
+                                        const isEditable = isCellEditable(
+                                            row,
+                                            cell.column
+                                        );
+                                        const isEditing =
+                                            isEditable &&
+                                            editingCell?.rowId === row.id &&
+                                            editingCell?.columnId ===
+                                                cell.column.id;
+                                        const isDirty =
+                                            !!edits[row.id] &&
+                                            cell.column.id in edits[row.id];
+
+                                        return (
+                                            <td
+                                                key={cell.id}
+                                                style={{
+                                                    display: "flex",
+                                                    width: pxToRem(
+                                                        cell.column.getSize()
+                                                    ),
+                                                    ...getPinnedColumnStyle(
+                                                        cell.column,
+                                                        pinnedLeadingWidth
+                                                    ),
+                                                }}
+                                                className={clsx(
+                                                    "px-4 py-3 text-xs text-gray-900 border-r border-gray-100 last:border-r-0 items-center focus:outline-none focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-blue-500",
+                                                    getPinnedEdgeClassName(
+                                                        cell.column
+                                                    ),
+                                                    {
+                                                        [pinnedCellClassName]:
+                                                            !!cell.column.getIsPinned() &&
+                                                            !isDirty &&
+                                                            !isInRange,
+                                                        "bg-amber-50":
+                                                            isDirty &&
+                                                            !isInRange,
+                                                        "bg-blue-100":
+                                                            isInRange,
+                                                        "outline-2 -outline-offset-2 outline-blue-500":
+                                                            isActiveCell &&
+                                                            !!cellRange,
+                                                        "cursor-text":
+                                                            isEditable,
+                                                    }
+                                                )}
+                                                role="gridcell"
+                                                aria-colindex={
+                                                    columnIndex +
+                                                    leadingColumnCount +
+                                                    1
+                                                }
+                                                aria-describedby={`column-${cell.column.id}`}
+                                                data-cell={`${virtualRow.index}:${columnIndex}`}
+                                                data-column-id={cell.column.id}
+                                                tabIndex={isActiveCell ? 0 : -1}
+                                                aria-selected={
+                                                    isInRange || undefined
+                                                }
+                                                onMouseDown={(e) =>
+                                                    handleCellMouseDown(
+                                                        e,
+                                                        cellPosition
+                                                    )
+                                                }
+                                                onMouseEnter={() =>
+                                                    dragRange(cellPosition)
+                                                }
+                                                onDoubleClick={
+                                                    isEditable
+                                                        ? () =>
+                                                              setEditingCell({
+                                                                  rowId: row.id,
+                                                                  columnId:
+                                                                      cell
+                                                                          .column
+                                                                          .id,
+                                                              })
+                                                        : undefined
+                                                }
+                                            >
+                                                {isDirty && (
+                                                    <span
+                                                        className="absolute top-0 right-0 border-t-[6px] border-l-[6px] border-t-amber-500 border-l-transparent"
+                                                        aria-label="Unsaved change"
+                                                    />
+                                                )}
+                                                {isEditing ? (
+                                                    <CellEditor
+                                                        value={cell.getValue()}
+                                                        editor={
+                                                            columnMeta?.editor ??
+                                                            "text"
+                                                        }
+                                                        options={
+                                                            columnMeta?.editorOptions
+                                                        }
+                                                        columnName={
+                                                            typeof cell.column
+                                                                .columnDef
+                                                                .header ===
+                                                            "string"
+                                                                ? cell.column
+                                                                      .columnDef
+                                                                      .header
+                                                                : cell.column.id
+                                                        }
+                                                        onCommit={(value) =>
+                                                            updateCell(
+                                                                row.id,
+                                                                cell.column.id,
+                                                                value
+                                                            )
+                                                        }
+                                                        onCancel={stopEditing}
+                                                    />
+                                                ) : (
+                                                    renderCellContent(
+                                                        cell,
+                                                        columnIndex === 0
+                                                    )
+                                                )}
+                                            </td>
+                                        );
+                                    }, "td")}
+                                    {hasDetail && (
+                                        // Wraps below the cells so the row's measured height includes it
+                                        <td
+                                            style={{ flexBasis: "100%" }}
+                                            className="px-4 py-3 text-xs text-gray-700 bg-gray-50 border-t border-gray-100"
+                                            role="gridcell"
+                                            aria-colindex={1}
+                                            aria-colspan={
+                                                leadingColumnCount +
+                                                visibleColumns.length
+                                            }
+                                        >
+                                            {renderDetail?.(row)}
+                                        </td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                        {!rows.length && !isFetching && (
+                            <tr
+                                style={{ display: "flex", width: "100%" }}
+                                role="row"
+                            >
+                                <td
+                                    style={{
+                                        display: "flex",
+                                        flex: 1,
+                                        justifyContent: "center",
+                                    }}
+                                    role="gridcell"
+                                    aria-colspan={
+                                        leadingColumnCount +
+                                        visibleColumns.length
+                                    }
+                                >
+                                    {errorState && !flatData.length ? (
+                                        renderError ? (
+                                            renderError(errorState)
+                                        ) : (
+                                            <EmptyData
+                                                placeholder="Couldn't load the data"
+                                                useDefaultIcon={false}
+                                            >
+                                                <p
+                                                    className="text-xs text-red-600"
+                                                    role="alert"
+                                                >
+                                                    {errorState.error.message}
+                                                </p>
+                                                <button
+                                                    type="button"
+                                                    onClick={retryQuery}
+                                                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer"
+                                                >
+                                                    Retry
+                                                </button>
+                                            </EmptyData>
+                                        )
+                                    ) : (
+                                        emptyComponent ?? (
+                                            <EmptyData
+                                                placeholder={
+                                                    columnFilters.length ||
+                                                    globalFilter
+                                                        ? "No rows match the current filters"
+                                                        : "No data"
+                                                }
+                                            />
+                                        )
+                                    )}
+                                </td>
+                            </tr>
+                        )}
+                    </tbody>
+                    {hasFooter && (
+                        <tfoot
+                            style={{
+                                display: "grid",
+                                position: "sticky",
+                                bottom: 0,
+                                zIndex: 2,
+                            }}
+                            className="bg-gray-50 border-t border-gray-200"
+                            role="rowgroup"
+                        >
+                            <tr
+                                style={{ display: "flex", width: "100%" }}
+                                role="row"
+                                aria-rowindex={
+                                    totalDBRowCount !== undefined
+                                        ? totalDBRowCount + headerRowCount + 1
+                                        : undefined
+                                }
+                                aria-label="Column summaries"
+                            >
+                                {enableRowSelection && (
+                                    <td
+                                        style={getLeadingCellStyle(
+                                            0,
+                                            SELECTION_COLUMN_WIDTH
+                                        )}
+                                        className="bg-gray-50 border-r border-gray-200"
+                                        role="gridcell"
+                                        aria-colindex={1}
+                                    />
+                                )}
+                                <td
+                                    style={getLeadingCellStyle(
+                                        selectionColumnWidth,
+                                        INDEX_COLUMN_WIDTH
+                                    )}
+                                    className={clsx(
+                                        "bg-gray-50 border-r border-gray-200",
+                                        leadingEdgeClassName
+                                    )}
+                                    role="gridcell"
+                                    aria-colindex={leadingColumnCount}
+                                />
+                                {renderColumnCells((columnIndex) => {
+                                    const column = visibleColumns[columnIndex];
+                                    const footerHeader =
+                                        table.getFooterGroups()[0]?.headers[
+                                            columnIndex
+                                        ];
+                                    const footerAggregate =
+                                        column.columnDef.meta?.footerAggregate;
+
+                                    return (
                                         <td
-                                            key={cell.id}
+                                            key={column.id}
                                             style={{
                                                 display: "flex",
                                                 width: pxToRem(
-                                                    cell.column.getSize()
+                                                    column.getSize()
+                                                ),
+                                                ...getPinnedColumnStyle(
+                                                    column,
+                                                    pinnedLeadingWidth
                                                 ),
                                             }}
-                                            className="px-4 py-3 text-xs text-gray-900 border-r border-gray-100 last:border-r-0 items-center"
-                                            role="cell"
-                                            aria-describedby={`column-${cell.column.id}`}
-                                        >
-                                            {flexRender(
-                                                cell.column.columnDef.cell,
-                                                cell.getContext()
+                                            className={clsx(
+                                                "px-4 py-3 text-xs font-semibold text-gray-900 border-r border-gray-200 last:border-r-0 items-center",
+                                                getPinnedEdgeClassName(column),
+                                                {
+                                                    "bg-gray-50":
+                                                        !!column.getIsPinned(),
+                                                }
                                             )}
+                                            role="gridcell"
+                                            aria-colindex={
+                                                columnIndex +
+                                                leadingColumnCount +
+                                                1
+                                            }
+                                            data-column-id={column.id}
+                                        >
+                                            {column.columnDef.footer &&
+                                            footerHeader
+                                                ? flexRender(
+                                                      column.columnDef.footer,
+                                                      footerHeader.getContext()
+                                                  )
+                                                : footerAggregate && (
+                                                      <span className="truncate">
+                                                          <span className="mr-1 font-normal text-gray-500">
+                                                              {
+                                                                  footerAggregateLabels[
+                                                                      footerAggregate
+                                                                  ]
+                                                              }
+                                                          </span>
+                                                          {formatAggregatedValue(
+                                                              footerValues[
+                                                                  column.id
+                                                              ]
+                                                          )}
+                                                      </span>
+                                                  )}
                                         </td>
-                                    ))}
-                                </tr>
-                            );
-                        })}
-                    </tbody>
+                                    );
+                                }, "td")}
+                            </tr>
+                        </tfoot>
+                    )}
                 </table>
             </div>
+            {/* Loaded rows stay when refreshing or loading more fails */}
+            {errorState &&
+                flatData.length > 0 &&
+                (renderError ? (
+                    renderError(errorState)
+                ) : (
+                    <div
+                        className="flex items-center justify-center gap-2 mt-2 px-3 py-2 text-xs text-red-800 bg-red-50 border border-red-200 rounded-md"
+                        role="alert"
+                    >
+                        <span>
+                            {isNextPageError
+                                ? "Couldn't load more rows"
+                                : "Couldn't refresh the rows"}
+                            : {errorState.error.message}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={retryQuery}
+                            className="font-medium underline rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-red-500"
+                        >
+                            Retry
+                        </button>
+                    </div>
+                ))}
+            {isPaged && (
+                <TablePagination
+                    table={table}
+                    totalRowCount={totalDBRowCount}
+                    pageSizeOptions={
+                        pageSizeOptions.includes(initialPageSize)
+                            ? pageSizeOptions
+                            : [...pageSizeOptions, initialPageSize].sort(
+                                  (a, b) => a - b
+                              )
+                    }
+                />
+            )}
         </section>
     );
 }
@@ -0,0 +1,164 @@
+import React from "react";
+import type { Table } from "@tanstack/react-table";
+import { clsx } from "@/utils/string.util";
+
+const SIBLING_PAGE_COUNT = 1;
+
+const pageButtonClassName = clsx(
+    "inline-flex items-center justify-center min-w-8 h-8 px-2 text-xs font-medium rounded-md border",
+    "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2",
+    "disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+);
+
+// Page indexes around the current page, with `null` marking a gap
+function getPageRange(pageIndex: number, pageCount: number) {
+    const firstSibling = Math.max(0, pageIndex - SIBLING_PAGE_COUNT);
+    const lastSibling = Math.min(pageCount - 1, pageIndex + SIBLING_PAGE_COUNT);
+    const range: (number | null)[] = [];
+
+    if (firstSibling > 0) range.push(0);
+    if (firstSibling > 1) range.push(null);
+    for (let index = firstSibling; index <= lastSibling; index++) {
+        range.push(index);
+    }
+    if (lastSibling < pageCount - 2) range.push(null);
+    if (lastSibling < pageCount - 1) range.push(pageCount - 1);
+
+    return range;
+}
+
+export function TablePagination<T>({
+    table,
+    totalRowCount,
+    pageSizeOptions,
+}: {
+    table: Table<T>;
+    totalRowCount?: number;
+    pageSizeOptions: number[];
+}) {
+    const pageSizeId = React.useId();
+    const { pageIndex, pageSize } = table.getState().pagination;
+    const pageCount = table.getPageCount();
+    // A negative page count means the total is unknown
+    const isPageCountKnown = pageCount >= 0;
+    const pageRange = getPageRange(
+        pageIndex,
+        isPageCountKnown ? pageCount : pageIndex + 1
+    );
+    const pageRowCount = table.getCoreRowModel().rows.length;
+    const firstRowNumber = pageRowCount ? pageIndex * pageSize + 1 : 0;
+    const lastRowNumber = pageIndex * pageSize + pageRowCount;
+
+    return (
+        <nav
+            className="flex items-center justify-between mt-3 text-xs text-gray-700"
+            aria-label="Table pagination"
+        >
+            <div className="flex items-center space-x-2">
+                <label
+                    htmlFor={pageSizeId}
+                    className="text-gray-500 font-medium"
+                >
+                    Rows per page
+                </label>
+                <select
+                    id={pageSizeId}
+                    className="px-2 py-1.5 border border-gray-300 shadow-sm rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={pageSize}
+                    onChange={(e) => {
+                        table.setPagination({
+                            pageIndex: 0,
+                            pageSize: Number(e.target.value),
+                        });
+                    }}
+                >
+                    {pageSizeOptions.map((option) => (
+                        <option key={option} value={option}>
+                            {option}
+                        </option>
+                    ))}
+                </select>
+                <span role="status" aria-live="polite">
+                    {firstRowNumber.toLocaleString()}–
+                    {lastRowNumber.toLocaleString()}
+                    {totalRowCount !== undefined &&
+                        ` of ${totalRowCount.toLocaleString()}`}
+                </span>
+            </div>
+            <div className="flex items-center space-x-1">
+                <button
+                    className={clsx(
+                        pageButtonClassName,
+                        "border-gray-300 bg-white hover:bg-gray-50"
+                    )}
+                    onClick={() => table.firstPage()}
+                    disabled={!table.getCanPreviousPage()}
+                    aria-label="Go to first page"
+                >
+                    «
+                </button>
+                <button
+                    className={clsx(
+                        pageButtonClassName,
+                        "border-gray-300 bg-white hover:bg-gray-50"
+                    )}
+                    onClick={() => table.previousPage()}
+                    disabled={!table.getCanPreviousPage()}
+                    aria-label="Go to previous page"
+                >
+                    ‹
+                </button>
+                {pageRange.map((page, index) =>
+                    page === null ? (
+                        <span
+                            key={`gap-${index}`}
+                            className="px-1 text-gray-400"
+                            aria-hidden="true"
+                        >
+                            …
+                        </span>
+                    ) : (
+                        <button
+                            key={page}
+                            className={clsx(
+                                pageButtonClassName,
+                                page === pageIndex
+                                    ? "border-blue-600 bg-blue-600 text-white"
+                                    : "border-gray-300 bg-white hover:bg-gray-50"
+                            )}
+                            onClick={() => table.setPageIndex(page)}
+                            aria-label={`Go to page ${page + 1}`}
+                            aria-current={
+                                page === pageIndex ? "page" : undefined
+                            }
+                        >
+                            {page + 1}
+                        </button>
+                    )
+                )}
+                <button
+                    className={clsx(
+                        pageButtonClassName,
+                        "border-gray-300 bg-white hover:bg-gray-50"
+                    )}
+                    onClick={() => table.nextPage()}
+                    disabled={!table.getCanNextPage()}
+                    aria-label="Go to next page"
+                >
+                    ›
+                </button>
+                <button
+                    className={clsx(
+                        pageButtonClassName,
+                        "border-gray-300 bg-white hover:bg-gray-50"
+                    )}
+                    onClick={() => table.lastPage()}
+                    disabled={!isPageCountKnown || !table.getCanNextPage()}
+                    aria-label="Go to last page"
+                >
+                    »
+                </button>
+            </div>
+        </nav>
+    );
+}
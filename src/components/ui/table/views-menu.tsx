@@ -0,0 +1,180 @@
+import React from "react";
+import { IconArrowDown, IconClose } from "@/icons";
+import { clsx } from "@/utils/string.util";
+
+export function TableViewsMenu({
+    views,
+    activeView,
+    isModified,
+    onSelect,
+    onSave,
+    onUpdate,
+    onDelete,
+}: {
+    views: TableView[];
+    activeView: TableView | null;
+    isModified: boolean;
+    // `null` selects the default view
+    onSelect: (viewId: string | null) => void;
+    onSave: (name: string) => void;
+    onUpdate: (viewId: string) => void;
+    onDelete: (viewId: string) => void;
+}) {
+    const [expand, setExpand] = React.useState(false);
+    const [viewName, setViewName] = React.useState("");
+    const trimmedViewName = viewName.trim();
+
+    // Close the menu when clicking outside
+    React.useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (expand && target?.closest("[data-views-menu]") === null) {
+                setExpand(false);
+            }
+        };
+
+        document.addEventListener("mousedown", handleClickOutside);
+        return () =>
+            document.removeEventListener("mousedown", handleClickOutside);
+    }, [expand]);
+
+    const selectView = (viewId: string | null) => {
+        setExpand(false);
+        onSelect(viewId);
+    };
+
+    const menuItemClassName = (isActive: boolean) =>
+        clsx(
+            "flex-1 px-3 py-2 text-xs text-left hover:bg-gray-50 focus:outline-none focus:bg-gray-50 cursor-pointer truncate",
+            isActive ? "font-semibold text-blue-700" : "text-gray-700"
+        );
+
+    return (
+        <div
+            className="relative"
+            data-views-menu
+            onKeyDown={(e) => {
+                if (e.key === "Escape" && expand) {
+                    e.stopPropagation();
+                    setExpand(false);
+                }
+            }}
+        >
+            <button
+                type="button"
+                onClick={() => setExpand(!expand)}
+                className="inline-flex items-center max-w-48 px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer"
+                aria-expanded={expand}
+                aria-haspopup="true"
+                aria-label={`Table view: ${activeView?.name ?? "Default"}${
+                    isModified ? ", modified" : ""
+                }`}
+            >
+                <span className="truncate">
+                    {activeView?.name ?? "Default view"}
+                    {isModified && " *"}
+                </span>
+                <IconArrowDown
+                    className={clsx(
+                        "w-4 h-4 ml-1 shrink-0 transition-transform duration-250",
+                        { "-rotate-180": expand }
+                    )}
+                    aria-hidden="true"
+                />
+            </button>
+            {expand && (
+                <div
+                    className="absolute right-0 top-full mt-2 w-60 bg-white rounded-md shadow-lg border border-gray-200 z-50"
+                    role="menu"
+                    aria-label="Table views"
+                >
+                    <div className="py-2 max-h-64 overflow-y-auto border-b border-gray-100">
+                        <div className="px-3 py-2 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                            Views
+                        </div>
+                        <button
+                            type="button"
+                            role="menuitemradio"
+                            aria-checked={!activeView}
+                            className={clsx(
+                                menuItemClassName(!activeView),
+                                "w-full"
+                            )}
+                            onClick={() => selectView(null)}
+                        >
+                            Default view
+                        </button>
+                        {views.map((view) => (
+                            <div
+                                key={view.id}
+                                className="flex items-center pr-2 hover:bg-gray-50"
+                            >
+                                <button
+                                    type="button"
+                                    role="menuitemradio"
+                                    aria-checked={activeView?.id === view.id}
+                                    className={menuItemClassName(
+                                        activeView?.id === view.id
+                                    )}
+                                    onClick={() => selectView(view.id)}
+                                >
+                                    {view.name}
+                                </button>
+                                <button
+                                    type="button"
+                                    className="p-1 text-gray-400 hover:text-red-600 rounded cursor-pointer focus:outline-none focus:ring-2 focus:ring-red-500"
+                                    onClick={() => onDelete(view.id)}
+                                    aria-label={`Delete ${view.name} view`}
+                                >
+                                    <IconClose
+                                        className="w-3.5 h-3.5"
+                                        aria-hidden="true"
+                                    />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    {activeView && isModified && (
+                        <button
+                            type="button"
+                            role="menuitem"
+                            className="w-full px-3 py-2 text-xs text-left text-blue-600 hover:bg-gray-50 focus:outline-none focus:bg-gray-50 cursor-pointer border-b border-gray-100 truncate"
+                            onClick={() => {
+                                setExpand(false);
+                                onUpdate(activeView.id);
+                            }}
+                        >
+                            Update "{activeView.name}"
+                        </button>
+                    )}
+                    <form
+                        className="flex items-center gap-2 p-3"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            if (!trimmedViewName) return;
+                            onSave(trimmedViewName);
+                            setViewName("");
+                            setExpand(false);
+                        }}
+                    >
+                        <input
+                            type="text"
+                            value={viewName}
+                            onChange={(e) => setViewName(e.target.value)}
+                            placeholder="New view name"
+                            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            aria-label="New view name"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!trimmedViewName}
+                            className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                            Save
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,4 +1,37 @@
-import type { ColumnDef, Row, SortingState } from "@tanstack/react-table";
+import type {
+    AggregationFn,
+    ColumnDef,
+    ColumnFiltersState,
+    ColumnOrderState,
+    ColumnPinningState,
+    ColumnSizingState,
+    ExpandedState,
+    GroupingState,
+    PaginationState,
+    Row,
+    RowData,
+    SortingState,
+    Table,
+} from "@tanstack/react-table";
+import type { ScrollToOptions as VirtualScrollToOptions } from "@tanstack/react-virtual";
+
+declare module "@tanstack/react-table" {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    interface ColumnMeta<TData extends RowData, TValue> {
+        filterVariant?: ColumnFilterVariant;
+        filterOptions?: SelectOption[];
+        filterPlaceholder?: string;
+        editable?: boolean;
+        editor?: CellEditorType;
+        editorOptions?: SelectOption[];
+        footerAggregate?: ColumnFooterAggregate;
+        // "server" reads the value from `PageData.meta.aggregates`
+        footerSource?: "client" | "server";
+    }
+    interface AggregationFns {
+        avg: AggregationFn<unknown>;
+    }
+}
 
 declare global {
     type DeepPartial<T> = {
@@ -15,6 +48,7 @@ declare global {
         persistKey?: string;
         persistFields?: (keyof T)[];
     };
+    type DebounceCallback<T> = (value: T) => void;
     type UseDebouncedStateOptions<T> = {
         delay?: number;
         onDebounce?: DebounceCallback<T>;
@@ -65,41 +99,245 @@ declare global {
         icon?: React.ReactHTMLElement;
         useDefaultIcon?: boolean;
         defaultIconClassName?: string;
+        // Actions under the placeholder, e.g. a retry button
+        children?: React.ReactNode;
+    };
+    type ColumnFilterVariant = "text" | "number" | "enum" | "date";
+    type NumberRangeFilterValue = [number | undefined, number | undefined];
+    type DateRangeFilterValue = [string | undefined, string | undefined];
+    type EnumFilterValue = string[];
+    type ColumnFooterAggregate =
+        | "sum"
+        | "avg"
+        | "min"
+        | "max"
+        | "count"
+        | "distinct";
+    type SelectOption = { label: string; value: string };
+    type CellEditorType = "text" | "number" | "select" | "boolean" | "date";
+    type TableEditState<T = Record<string, unknown>> = {
+        // Pending values keyed by row id, then column id
+        edits: Record<string, Record<string, unknown>>;
+        // Edited rows as they were loaded, so their edits still commit once
+        // the rows are paged, sorted or filtered out
+        originals: Record<string, T>;
+    };
+    type TableMutationFns<T> = {
+        // Resolve the saved row to replace the optimistic one
+        updateRow?: (rowId: string, values: Partial<T>) => Promise<T | void>;
+        insertRow?: (row: T) => Promise<T | void>;
+        deleteRows?: (rowIds: string[]) => Promise<void>;
+    };
+    type VirtualizedTableHandle<T> = {
+        // Each resolves to whether the change was saved
+        updateRow: (rowId: string, values: Partial<T>) => Promise<boolean>;
+        insertRow: (row: T) => Promise<boolean>;
+        deleteRows: (rowIds: string[]) => Promise<boolean>;
+        scrollToIndex: (
+            index: number,
+            options?: VirtualScrollToOptions
+        ) => void;
+        // Returns false when the row is not loaded
+        scrollToRowId: (
+            rowId: string,
+            options?: VirtualScrollToOptions
+        ) => boolean;
+        refetch: () => Promise<void>;
+        resetSorting: () => void;
+        // Only loaded rows, see `getSelection` for the full selection
+        getSelectedRows: () => T[];
+        getSelection: () => TableSelection;
+        selectAllMatching: () => void;
+        clearSelection: () => void;
+        // Resolves to whether the file was downloaded
+        exportData: (
+            format: TableExportFormat,
+            scope: TableExportScope
+        ) => Promise<boolean>;
+        // Fits all visible columns when no ids are given, from rendered cells only
+        autoFitColumns: (columnIds?: string[]) => void;
+        getTableInstance: () => Table<T>;
+    };
+    type ColumnDropPosition = "before" | "after";
+    type CellPosition = { rowIndex: number; columnIndex: number };
+    // `anchor` stays put while `focus` follows the mouse or arrow keys
+    type CellRange = { anchor: CellPosition; focus: CellPosition };
+    type CellRangeBounds = {
+        top: number;
+        bottom: number;
+        left: number;
+        right: number;
     };
+    type TableRowChange<T> = {
+        rowId: string;
+        original: T;
+        changes: Partial<T>;
+    };
+    type TableQueryState = {
+        sorting: SortingState;
+        columnFilters: ColumnFiltersState;
+        globalFilter: string;
+    };
+    // "all" selects every row matching `query` except the excluded ones,
+    // `selectedCount` is unknown when the total is
+    type TableSelection =
+        | { mode: "include"; rowIds: string[]; selectedCount: number }
+        | {
+              mode: "all";
+              excludedRowIds: string[];
+              query: TableQueryState;
+              selectedCount?: number;
+          };
+    type TableExportFormat = "csv" | "tsv" | "json" | "xlsx";
+    type TableExportScope = "selected" | "loaded" | "all";
+    type TableExportProgress = {
+        loadedRowCount: number;
+        totalRowCount?: number;
+    };
+    type TableViewState = TableQueryState & {
+        columnSizing: ColumnSizingState;
+        columnOrder: ColumnOrderState;
+        columnPinning: ColumnPinningState;
+        columnVisibility: Record<string, boolean>;
+    };
+    type TableView = { id: string; name: string; state: TableViewState };
+    // The part of the state shared links carry
+    type TableUrlState = Pick<
+        TableViewState,
+        "sorting" | "columnFilters" | "globalFilter" | "columnVisibility"
+    >;
+    type TableViewStorage = {
+        version: number;
+        // Last state of the table, restored on the next visit
+        current?: TableViewState;
+        views: TableView[];
+        activeViewId: string | null;
+    };
+    type TableCursor = string | number;
+    interface TableQuery extends TableQueryState {
+        start: number;
+        size: number;
+        signal: AbortSignal;
+        cursor?: TableCursor;
+    }
+    type TablePageParam = { index: number; cursor?: TableCursor };
     interface PageData<T> {
         data: T[];
         meta: {
-            totalRowCount: number;
+            // Omit when the total is unknown and page with `hasMore`
+            totalRowCount?: number;
+            nextCursor?: TableCursor | null;
+            hasMore?: boolean;
+            // Footer values over every matching row, by column id
+            aggregates?: Record<string, unknown>;
         };
     }
+    type TableErrorState = {
+        error: Error;
+        // Refetches the query, or only the failed page when `isNextPage`
+        retry: () => void;
+        isNextPage: boolean;
+    };
+    type TableFetchFn<T> = (query: TableQuery) => Promise<PageData<T>>;
+    type PositionalTableFetchFn<T> = (
+        start: number,
+        size: number,
+        sorting: SortingState,
+        columnFilters: ColumnFiltersState,
+        globalFilter: string
+    ) => Promise<PageData<T>>;
 
     interface VirtualizedTableProps<T> {
         columns: ColumnDef<T>[];
         queryKey: string | (string | unknown)[];
-        fetchFn: (
-            start: number,
-            size: number,
-            sorting: SortingState
-        ) => Promise<PageData<T>>;
+        // Wrap positional fetchers with `fromPositionalFetchFn`
+        fetchFn: TableFetchFn<T>;
         fetchSize?: number;
+        // "paged" requests offsets, cursor backends need "infinite"
+        paginationMode?: "infinite" | "paged";
+        // Added to `pageSizeOptions` when missing
+        initialPageSize?: number;
+        pageSizeOptions?: number[];
+        onPaginationChange?: (pagination: PaginationState) => void;
         containerHeight?: string | number;
         estimatedRowHeight?: number;
         scrollThreshold?: number;
         overscan?: number;
+        // Render only the unpinned columns in view, for very wide tables
+        enableColumnVirtualization?: boolean;
+        columnOverscan?: number;
         enableSorting?: boolean;
+        sortingMode?: "client" | "server";
         enableColumnResizing?: boolean;
         initialSorting?: SortingState;
+        // Sort keys Shift+click can combine, 1 keeps single-column sorting
+        maxSortColumns?: number;
         onSortingChange?: (sorting: SortingState) => void;
+        // Groups the loaded rows, aggregates cover the loaded rows only. Off
+        // by default unless `initialGrouping` is given
+        enableGrouping?: boolean;
+        initialGrouping?: GroupingState;
+        onGroupingChange?: (grouping: GroupingState) => void;
+        // Panel shown under an expanded row
+        renderDetail?: (row: Row<T>) => React.ReactNode;
+        // Nested rows, read-only when editing
+        getSubRows?: (row: T, index: number) => T[] | undefined;
+        // Controlled when given, like `columnOrder`
+        expanded?: ExpandedState;
+        onExpandedChange?: (expanded: ExpandedState) => void;
+        enableColumnFilters?: boolean;
+        filteringMode?: "client" | "server";
+        initialColumnFilters?: ColumnFiltersState;
+        onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void;
+        enableGlobalFilter?: boolean;
+        initialGlobalFilter?: string;
+        onGlobalFilterChange?: (globalFilter: string) => void;
+        globalFilterDebounce?: number;
+        globalFilterPlaceholder?: string;
         rowClassName?: (row: Row<T>) => string;
         containerClassName?: string;
         loadingComponent?: React.ReactNode;
         fetchingComponent?: React.ReactNode;
+        // Shown in the body when no rows match
+        emptyComponent?: React.ReactNode;
+        // Replaces the built-in error states, `isNextPage` when loading more
+        // rows failed and the loaded ones stay
+        renderError?: (state: TableErrorState) => React.ReactNode;
         enableRowSelection?: boolean;
         rowKey?: string;
-        onRowSelectionChange?: (row: onRowSelectionChange) => void;
+        onRowSelectionChange?: (selection: TableSelection) => void;
         enableColumnToggling?: boolean;
         initColumnVisibility?: VisibilityState;
         onColumnVisibilityChange?: (visibility: VisibilityState) => void;
+        enableColumnReordering?: boolean;
+        // Controlled when given, ids missing from it keep their place at the end
+        columnOrder?: ColumnOrderState;
+        onColumnOrderChange?: (columnOrder: ColumnOrderState) => void;
+        enableColumnPinning?: boolean;
+        initialColumnPinning?: ColumnPinningState;
+        // Controlled when given, like `columnOrder`
+        columnPinning?: ColumnPinningState;
+        onColumnPinningChange?: (columnPinning: ColumnPinningState) => void;
+        // Keep the selection and index columns stuck to the left edge
+        pinLeadingColumns?: boolean;
+        enableEditing?: boolean;
+        onCommit?: (changes: TableRowChange<T>[]) => void | Promise<unknown>;
+        // Requires `rowKey`
+        mutationFns?: TableMutationFns<T>;
+        // Refetch the patched query once the last mutation settles
+        refetchOnMutation?: boolean;
+        enableExport?: boolean;
+        // File name without extension
+        exportFileName?: string;
+        // localStorage key to persist the table state and saved views under
+        stateKey?: string;
+        // Bump when saved views no longer fit the columns
+        stateVersion?: number;
+        // Mirror sorting, filters, search and visible columns in the URL
+        enableUrlSync?: boolean;
+        // Keeps the params of several tables on a page apart
+        urlParamPrefix?: string;
+        ref?: React.Ref<VirtualizedTableHandle<T>>;
     }
 }
 
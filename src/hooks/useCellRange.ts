@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+function clamp(value: number, min: number, max: number) {
+    return Math.min(Math.max(value, min), max);
+}
+
+const useCellRange = ({
+    rowCount,
+    columnCount,
+}: {
+    rowCount: number;
+    columnCount: number;
+}) => {
+    const [range, setRange] = useState<CellRange | null>(null);
+    // Set once a drag spans cells, text selection is off until it ends
+    const [isSelectingCells, setIsSelectingCells] = useState(false);
+    const isDraggingRef = useRef(false);
+
+    // Stop extending the range wherever the mouse is released
+    useEffect(() => {
+        const handleMouseUp = () => {
+            isDraggingRef.current = false;
+            setIsSelectingCells(false);
+        };
+
+        document.addEventListener("mouseup", handleMouseUp);
+        return () => document.removeEventListener("mouseup", handleMouseUp);
+    }, []);
+
+    const bounds: CellRangeBounds | null = range
+        ? {
+              top: Math.min(range.anchor.rowIndex, range.focus.rowIndex),
+              bottom: Math.max(range.anchor.rowIndex, range.focus.rowIndex),
+              left: Math.min(range.anchor.columnIndex, range.focus.columnIndex),
+              right: Math.max(
+                  range.anchor.columnIndex,
+                  range.focus.columnIndex
+              ),
+          }
+        : null;
+
+    const isCellInRange = (rowIndex: number, columnIndex: number) =>
+        !!bounds &&
+        rowIndex >= bounds.top &&
+        rowIndex <= bounds.bottom &&
+        columnIndex >= bounds.left &&
+        columnIndex <= bounds.right;
+
+    // Shift keeps the anchor to grow the range instead
+    const startRange = useCallback((cell: CellPosition, extend: boolean) => {
+        isDraggingRef.current = true;
+        setRange((prev) =>
+            extend && prev
+                ? { ...prev, focus: cell }
+                : { anchor: cell, focus: cell }
+        );
+    }, []);
+
+    // A drag within one cell selects its text, reaching another selects cells
+    const dragRange = useCallback((cell: CellPosition) => {
+        if (!isDraggingRef.current) return;
+        window.getSelection()?.removeAllRanges();
+        setIsSelectingCells(true);
+        setRange((prev) => prev && { ...prev, focus: cell });
+    }, []);
+
+    // Resolves to the newly focused cell, kept inside the grid
+    const focusCell = (cell: CellPosition, extend: boolean) => {
+        if (!rowCount || !columnCount) return null;
+        const nextFocus = {
+            rowIndex: clamp(cell.rowIndex, 0, rowCount - 1),
+            columnIndex: clamp(cell.columnIndex, 0, columnCount - 1),
+        };
+        setRange(
+            extend && range
+                ? { ...range, focus: nextFocus }
+                : { anchor: nextFocus, focus: nextFocus }
+        );
+        return nextFocus;
+    };
+
+    const clearRange = useCallback(() => setRange(null), []);
+
+    return {
+        range,
+        bounds,
+        isSelectingCells,
+        setRange,
+        isCellInRange,
+        startRange,
+        dragRange,
+        focusCell,
+        clearRange,
+    };
+};
+
+export default useCellRange;
@@ -0,0 +1,94 @@
+import { type DragEvent, useState } from "react";
+
+const useColumnDrag = ({
+    enabled,
+    onDrop,
+}: {
+    enabled: boolean;
+    onDrop: (
+        columnId: string,
+        targetColumnId: string,
+        position: ColumnDropPosition
+    ) => void;
+}) => {
+    const [draggedColumnId, setDraggedColumnId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<{
+        columnId: string;
+        position: ColumnDropPosition;
+    } | null>(null);
+
+    const endDrag = () => {
+        setDraggedColumnId(null);
+        setDropTarget(null);
+    };
+
+    // Spread on the element users grab, kept apart from the resize handle
+    const getDragHandleProps = (columnId: string) =>
+        enabled
+            ? {
+                  draggable: true,
+                  onDragStart: (event: DragEvent) => {
+                      event.dataTransfer.effectAllowed = "move";
+                      event.dataTransfer.setData("text/plain", columnId);
+                      setDraggedColumnId(columnId);
+                  },
+                  onDragEnd: endDrag,
+              }
+            : {};
+
+    // Spread on the header cell, the pointer half picks the drop side
+    const getDropTargetProps = (columnId: string) =>
+        enabled
+            ? {
+                  onDragOver: (event: DragEvent<HTMLElement>) => {
+                      if (!draggedColumnId || draggedColumnId === columnId) {
+                          return;
+                      }
+                      event.preventDefault();
+                      event.dataTransfer.dropEffect = "move";
+                      const rect = event.currentTarget.getBoundingClientRect();
+                      const position: ColumnDropPosition =
+                          event.clientX < rect.left + rect.width / 2
+                              ? "before"
+                              : "after";
+                      setDropTarget((prev) =>
+                          prev?.columnId === columnId &&
+                          prev.position === position
+                              ? prev
+                              : { columnId, position }
+                      );
+                  },
+                  onDragLeave: (event: DragEvent<HTMLElement>) => {
+                      if (
+                          !event.currentTarget.contains(
+                              event.relatedTarget as Node | null
+                          )
+                      ) {
+                          setDropTarget((prev) =>
+                              prev?.columnId === columnId ? null : prev
+                          );
+                      }
+                  },
+                  onDrop: (event: DragEvent) => {
+                      event.preventDefault();
+                      if (draggedColumnId && dropTarget) {
+                          onDrop(
+                              draggedColumnId,
+                              dropTarget.columnId,
+                              dropTarget.position
+                          );
+                      }
+                      endDrag();
+                  },
+              }
+            : {};
+
+    return {
+        draggedColumnId,
+        dropTarget,
+        getDragHandleProps,
+        getDropTargetProps,
+    };
+};
+
+export default useColumnDrag;
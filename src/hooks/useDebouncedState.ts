@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const DEFAULT_DELAY = 300;
+
+const useDebouncedState = <T>(
+    initialValue: T,
+    {
+        delay = DEFAULT_DELAY,
+        onDebounce,
+        leadingCall = false,
+    }: UseDebouncedStateOptions<T> = {}
+) => {
+    const [value, setValue] = useState<T>(initialValue);
+    const [debouncedValue, setDebouncedValue] = useState<T>(initialValue);
+    const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const hasPendingCallRef = useRef(false);
+    const onDebounceRef = useRef(onDebounce);
+
+    // Keep the latest callback without restarting the pending timer
+    useEffect(() => {
+        onDebounceRef.current = onDebounce;
+    }, [onDebounce]);
+
+    // Clear the pending timer on unmount
+    useEffect(() => {
+        return () => {
+            if (timeoutRef.current) clearTimeout(timeoutRef.current);
+        };
+    }, []);
+
+    const commit = useCallback((nextValue: T) => {
+        setDebouncedValue(nextValue);
+        onDebounceRef.current?.(nextValue);
+    }, []);
+
+    const setDebouncedState = useCallback(
+        (nextValue: T, immediate: boolean = false) => {
+            setValue(nextValue);
+
+            if (immediate) {
+                if (timeoutRef.current) clearTimeout(timeoutRef.current);
+                timeoutRef.current = null;
+                hasPendingCallRef.current = false;
+                commit(nextValue);
+                return;
+            }
+
+            // Leading call fires once at the start of a burst of updates
+            const isLeading = leadingCall && !timeoutRef.current;
+            if (isLeading) commit(nextValue);
+            hasPendingCallRef.current = !isLeading;
+
+            if (timeoutRef.current) clearTimeout(timeoutRef.current);
+            timeoutRef.current = setTimeout(() => {
+                timeoutRef.current = null;
+                if (hasPendingCallRef.current) {
+                    hasPendingCallRef.current = false;
+                    commit(nextValue);
+                }
+            }, delay);
+        },
+        [commit, delay, leadingCall]
+    );
+
+    // Replace both values without notifying, e.g. when the source is reset
+    const resetState = useCallback((nextValue: T) => {
+        if (timeoutRef.current) clearTimeout(timeoutRef.current);
+        timeoutRef.current = null;
+        hasPendingCallRef.current = false;
+        setValue(nextValue);
+        setDebouncedValue(nextValue);
+    }, []);
+
+    return [value, setDebouncedState, debouncedValue, resetState] as const;
+};
+
+export default useDebouncedState;
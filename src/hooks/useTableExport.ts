@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Table } from "@tanstack/react-table";
+
+import {
+    createExportFile,
+    downloadFile,
+    exportFormats,
+    getExportColumns,
+} from "@/utils/export.util";
+
+type ResolveExportRows<T> = (
+    scope: TableExportScope,
+    signal: AbortSignal,
+    onProgress: (progress: TableExportProgress) => void
+) => Promise<T[]>;
+
+const useTableExport = <T>({
+    table,
+    resolveRows,
+    fileName,
+}: {
+    table: Table<T>;
+    resolveRows: ResolveExportRows<T>;
+    fileName: string;
+}) => {
+    const [progress, setProgress] = useState<TableExportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const resolveRowsRef = useRef(resolveRows);
+
+    // Keep the latest resolver, it closes over the current query
+    useEffect(() => {
+        resolveRowsRef.current = resolveRows;
+    }, [resolveRows]);
+
+    // Stop streaming pages on unmount
+    useEffect(() => {
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    // Resolves to whether the file was downloaded
+    const exportData = useCallback(
+        async (format: TableExportFormat, scope: TableExportScope) => {
+            controllerRef.current?.abort();
+            const controller = new AbortController();
+            controllerRef.current = controller;
+            setError(null);
+            setProgress({ loadedRowCount: 0 });
+
+            try {
+                const rows = await resolveRowsRef.current(
+                    scope,
+                    controller.signal,
+                    setProgress
+                );
+                controller.signal.throwIfAborted();
+                downloadFile(
+                    createExportFile(format, getExportColumns(table), rows),
+                    `${fileName}.${exportFormats[format].extension}`
+                );
+                return true;
+            } catch (exportError) {
+                if (!controller.signal.aborted) {
+                    setError(
+                        exportError instanceof Error
+                            ? exportError.message
+                            : "Export failed"
+                    );
+                }
+                return false;
+            } finally {
+                if (controllerRef.current === controller) {
+                    controllerRef.current = null;
+                    setProgress(null);
+                }
+            }
+        },
+        [table, fileName]
+    );
+
+    const cancelExport = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    return {
+        exportData,
+        cancelExport,
+        progress,
+        error,
+        clearError: () => setError(null),
+    };
+};
+
+export default useTableExport;
@@ -0,0 +1,94 @@
+import { useCallback, useMemo, useState } from "react";
+import type { OnChangeFn, RowSelectionState } from "@tanstack/react-table";
+
+const useTableSelection = ({
+    loadedRowIds,
+    matchingRowCount,
+    query,
+}: {
+    loadedRowIds: string[];
+    // Undefined when the number of matching rows is unknown
+    matchingRowCount?: number;
+    query: TableQueryState;
+}) => {
+    const [isAllMatching, setIsAllMatching] = useState(false);
+    const [selectedRowIds, setSelectedRowIds] = useState<RowSelectionState>({});
+    const [excludedRowIds, setExcludedRowIds] = useState<RowSelectionState>({});
+
+    // Selecting all matching rows marks every loaded row unless excluded,
+    // so rows of pages loaded later are selected as well
+    const rowSelection = useMemo(() => {
+        if (!isAllMatching) return selectedRowIds;
+        return loadedRowIds.reduce<RowSelectionState>((acc, rowId) => {
+            if (!excludedRowIds[rowId]) acc[rowId] = true;
+            return acc;
+        }, {});
+    }, [isAllMatching, selectedRowIds, excludedRowIds, loadedRowIds]);
+
+    const onRowSelectionChange: OnChangeFn<RowSelectionState> = useCallback(
+        (updater) => {
+            if (!isAllMatching) return setSelectedRowIds(updater);
+
+            const nextSelection =
+                typeof updater === "function" ? updater(rowSelection) : updater;
+            setExcludedRowIds((prev) => {
+                const nextExcluded = { ...prev };
+                loadedRowIds.forEach((rowId) => {
+                    if (nextSelection[rowId]) delete nextExcluded[rowId];
+                    else nextExcluded[rowId] = true;
+                });
+                return nextExcluded;
+            });
+        },
+        [isAllMatching, rowSelection, loadedRowIds]
+    );
+
+    const selectAllMatching = useCallback(() => {
+        setIsAllMatching(true);
+        setSelectedRowIds({});
+        setExcludedRowIds({});
+    }, []);
+
+    const clearSelection = useCallback(() => {
+        setIsAllMatching(false);
+        setSelectedRowIds({});
+        setExcludedRowIds({});
+    }, []);
+
+    const excludedCount = Object.keys(excludedRowIds).length;
+    const selectedCount = isAllMatching
+        ? matchingRowCount !== undefined
+            ? Math.max(0, matchingRowCount - excludedCount)
+            : undefined
+        : Object.keys(selectedRowIds).length;
+
+    // A form the backend can resolve without knowing the loaded rows
+    const selection = useMemo<TableSelection>(
+        () =>
+            isAllMatching
+                ? {
+                      mode: "all",
+                      excludedRowIds: Object.keys(excludedRowIds),
+                      query,
+                      selectedCount,
+                  }
+                : {
+                      mode: "include",
+                      rowIds: Object.keys(selectedRowIds),
+                      selectedCount: selectedCount ?? 0,
+                  },
+        [isAllMatching, excludedRowIds, selectedRowIds, query, selectedCount]
+    );
+
+    return {
+        rowSelection,
+        onRowSelectionChange,
+        selection,
+        selectedCount,
+        isAllMatching,
+        selectAllMatching,
+        clearSelection,
+    };
+};
+
+export default useTableSelection;
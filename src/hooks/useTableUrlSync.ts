@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+
+import { readTableUrlState, toTableUrlSearch } from "@/utils/url.util";
+
+const useTableUrlSync = ({
+    enabled,
+    prefix,
+    columnIds,
+    state,
+    onPopState,
+}: {
+    enabled: boolean;
+    prefix: string;
+    columnIds: string[];
+    state: TableUrlState;
+    // `null` when the restored URL holds no table params
+    onPopState: (urlState: TableUrlState | null) => void;
+}) => {
+    const onPopStateRef = useRef(onPopState);
+
+    useEffect(() => {
+        onPopStateRef.current = onPopState;
+    }, [onPopState]);
+
+    // Replace rather than push, typing a search shouldn't flood the history
+    useEffect(() => {
+        if (!enabled) return;
+        const url = new URL(window.location.href);
+        url.search = toTableUrlSearch(url.search, prefix, state, columnIds);
+        if (url.href !== window.location.href) {
+            window.history.replaceState(window.history.state, "", url);
+        }
+    }, [enabled, prefix, state, columnIds]);
+
+    // Back and forward restore the table of that history entry
+    useEffect(() => {
+        if (!enabled) return;
+        const handlePopState = () => {
+            onPopStateRef.current(
+                readTableUrlState(window.location.search, prefix, columnIds)
+            );
+        };
+
+        window.addEventListener("popstate", handlePopState);
+        return () => window.removeEventListener("popstate", handlePopState);
+    }, [enabled, prefix, columnIds]);
+};
+
+export default useTableUrlSync;
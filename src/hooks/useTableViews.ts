@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { deepEqual } from "@/utils/object.util";
+import {
+    createTableViewId,
+    loadTableViews,
+    saveTableViews,
+} from "@/utils/view.util";
+
+const useTableViews = ({
+    stateKey,
+    version,
+    columnIds,
+}: {
+    stateKey?: string;
+    version: number;
+    columnIds: string[];
+}) => {
+    const [storage, setStorage] = useState<TableViewStorage>(
+        () =>
+            (stateKey && loadTableViews(stateKey, version, columnIds)) || {
+                version,
+                views: [],
+                activeViewId: null,
+            }
+    );
+
+    useEffect(() => {
+        if (stateKey) saveTableViews(stateKey, storage);
+    }, [stateKey, storage]);
+
+    const activeView =
+        storage.views.find((view) => view.id === storage.activeViewId) ?? null;
+
+    const saveCurrentState = useCallback((state: TableViewState) => {
+        setStorage((prev) =>
+            deepEqual(prev.current, state) ? prev : { ...prev, current: state }
+        );
+    }, []);
+
+    const saveView = (name: string, state: TableViewState) => {
+        const view = { id: createTableViewId(), name, state };
+        setStorage((prev) => ({
+            ...prev,
+            views: [...prev.views, view],
+            activeViewId: view.id,
+        }));
+    };
+
+    const updateView = (viewId: string, state: TableViewState) => {
+        setStorage((prev) => ({
+            ...prev,
+            views: prev.views.map((view) =>
+                view.id === viewId ? { ...view, state } : view
+            ),
+        }));
+    };
+
+    const deleteView = (viewId: string) => {
+        setStorage((prev) => ({
+            ...prev,
+            views: prev.views.filter((view) => view.id !== viewId),
+            activeViewId:
+                prev.activeViewId === viewId ? null : prev.activeViewId,
+        }));
+    };
+
+    // `null` selects the default view, resolves to the state to apply
+    const selectView = (viewId: string | null) => {
+        const view = storage.views.find((view) => view.id === viewId) ?? null;
+        setStorage((prev) => ({ ...prev, activeViewId: view?.id ?? null }));
+        return view?.state ?? null;
+    };
+
+    return {
+        // Restores the table on mount
+        storedState: storage.current,
+        views: storage.views,
+        activeView,
+        // Whether the table drifted from the active view since it was applied
+        isViewModified:
+            !!activeView &&
+            !!storage.current &&
+            !deepEqual(activeView.state, storage.current),
+        saveCurrentState,
+        saveView,
+        updateView,
+        deleteView,
+        selectView,
+    };
+};
+
+export default useTableViews;
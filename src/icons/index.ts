@@ -8,3 +8,4 @@ export { ReactComponent as IconTune } from "./svg/icon-tune.svg";
 export { ReactComponent as IconSort } from "./svg/icon-sort.svg";
 export { ReactComponent as IconSortDown } from "./svg/icon-sort-down.svg";
 export { ReactComponent as IconSortUp } from "./svg/icon-sort-up.svg";
+export { ReactComponent as IconGroup } from "./svg/icon-group.svg";
@@ -105,10 +105,15 @@ export default function createDataStore<T>(initialState: T) {
         }
     }
 
-    // Reset store to initial state
-    function resetStore() {
-        store = deepClone(initialState);
-        history.splice(0, history.length, deepClone(initialState));
+    // Reset store to initial state, or start a new history from `nextState`
+    function resetStore(nextState: T = initialState) {
+        // Drop the pending push so it can't bring back the old state
+        if (pushHistoryDebouncedTimeout) {
+            clearTimeout(pushHistoryDebouncedTimeout);
+            pushHistoryDebouncedTimeout = null;
+        }
+        store = deepClone(nextState);
+        history.splice(0, history.length, deepClone(nextState));
         currentIndex = 0;
         notifySubscribers();
     }
@@ -149,12 +154,23 @@ export default function createDataStore<T>(initialState: T) {
         );
     }
 
-    function registerShortcuts() {
+    function registerShortcuts(target?: HTMLElement | Window) {
         if (typeof window === "undefined") return;
+        const shortcutTarget = target ?? window;
 
         const handler = (event: KeyboardEvent) => {
             const key = event.key.toLowerCase();
 
+            // Leave native undo/redo to text fields
+            const element = event.target as HTMLElement | null;
+            if (
+                element?.isContentEditable ||
+                element?.tagName === "INPUT" ||
+                element?.tagName === "TEXTAREA" ||
+                element?.tagName === "SELECT"
+            )
+                return;
+
             const isUndo =
                 (event.ctrlKey || event.metaKey) &&
                 key === "z" &&
@@ -175,15 +191,19 @@ export default function createDataStore<T>(initialState: T) {
             }
         };
 
-        window.addEventListener("keydown", handler);
+        shortcutTarget.addEventListener("keydown", handler as EventListener);
 
         return () => {
-            window.removeEventListener("keydown", handler);
+            shortcutTarget.removeEventListener(
+                "keydown",
+                handler as EventListener
+            );
         };
     }
 
     return {
         useDataStore,
+        getStore,
         setStore,
         resetStore,
         rollbackTo,
@@ -1,35 +1,132 @@
 import type { User, UserResponse } from "@/type/user";
-import type { ColumnSort, SortingState } from "@tanstack/react-table";
+import type { ColumnFiltersState, SortingState } from "@tanstack/react-table";
+import {
+    dateRangeFilter,
+    enumIncludesFilter,
+    normalizedTextIncludes,
+    numberRangeFilter,
+    textContainsFilter,
+} from "@/utils/filter.util";
 
-export async function fetchData(
-    start: number,
-    size: number,
-    sorting: SortingState
-): Promise<UserResponse> {
+const userFilterVariants: Partial<Record<keyof User, ColumnFilterVariant>> = {
+    language: "enum",
+    version: "number",
+    createdDate: "date",
+};
+
+function filterUsers(data: User[], columnFilters: ColumnFiltersState) {
+    return data.filter((user) =>
+        columnFilters.every(({ id, value }) => {
+            const cellValue = user[id as keyof User];
+            switch (userFilterVariants[id as keyof User]) {
+                case "number":
+                    return numberRangeFilter(
+                        cellValue,
+                        value as NumberRangeFilterValue
+                    );
+                case "enum":
+                    return enumIncludesFilter(
+                        cellValue,
+                        value as EnumFilterValue
+                    );
+                case "date":
+                    return dateRangeFilter(
+                        cellValue,
+                        value as DateRangeFilterValue
+                    );
+                default:
+                    return textContainsFilter(cellValue, value as string);
+            }
+        })
+    );
+}
+
+function searchUsers(data: User[], globalFilter: string) {
+    if (!globalFilter.trim()) return data;
+    return data.filter((user) =>
+        Object.values(user).some((value) =>
+            normalizedTextIncludes(value, globalFilter)
+        )
+    );
+}
+
+// Missing values sort last in both directions
+function compareValues(a: unknown, b: unknown, desc: boolean) {
+    if (a == null || b == null) {
+        return a == null ? (b == null ? 0 : 1) : -1;
+    }
+    const result =
+        typeof a === "number" && typeof b === "number"
+            ? a - b
+            : String(a).localeCompare(String(b));
+    return desc ? -result : result;
+}
+
+// Later keys break ties of earlier ones, fully tied users keep the
+// dataset order
+function sortUsers(data: User[], sorting: SortingState) {
+    return data
+        .map((user, index) => ({ user, index }))
+        .sort((a, b) => {
+            for (const { id, desc } of sorting) {
+                const result = compareValues(
+                    a.user[id as keyof User],
+                    b.user[id as keyof User],
+                    desc
+                );
+                if (result) return result;
+            }
+            return a.index - b.index;
+        })
+        .map(({ user }) => user);
+}
+
+// The demo dataset is a static file, so saving only simulates latency
+export async function saveUsers(changes: TableRowChange<User>[]) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return changes.map(({ original, changes }) => ({
+        ...original,
+        ...changes,
+    }));
+}
+
+export async function fetchData({
+    start,
+    size,
+    sorting,
+    columnFilters,
+    globalFilter,
+    signal,
+}: TableQuery): Promise<UserResponse> {
     try {
         const res = await fetch(
-            "https://microsoftedge.github.io/Demos/json-dummy-data/5MB.json"
+            "https://microsoftedge.github.io/Demos/json-dummy-data/5MB.json",
+            { signal }
+        );
+        const data = sortUsers(
+            searchUsers(
+                filterUsers((await res.json()) as User[], columnFilters),
+                globalFilter
+            ),
+            sorting
         );
-        const data = (await res.json()) as User[];
-
-        if (sorting.length) {
-            const sort = sorting[0] as ColumnSort;
-            const { id, desc } = sort as { id: keyof User; desc: boolean };
-            data.sort((a, b) => {
-                if (desc) {
-                    return a[id]! < b[id]! ? 1 : -1;
-                }
-                return a[id]! > b[id]! ? 1 : -1;
-            });
-        }
 
         return {
             data: data.slice(start, start + size),
             meta: {
                 totalRowCount: data.length,
+                // Backs the Version footer, over every matching user
+                aggregates: {
+                    version: data.length
+                        ? data.reduce((sum, user) => sum + user.version, 0) /
+                          data.length
+                        : null,
+                },
             },
         };
     } catch (error) {
+        // Let React Query recognize cancelled requests
+        if (signal.aborted) throw error;
         throw new Error(error instanceof Error ? error.message : String(error));
     }
 }
@@ -12,5 +12,6 @@ export declare type UserResponse = {
     data: User[];
     meta: {
         totalRowCount: number;
+        aggregates: { version: number | null };
     };
 };
@@ -0,0 +1,107 @@
+import { toCellText, toDelimitedLines } from "@/utils/export.util";
+import { toTimestamp } from "@/utils/filter.util";
+
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+export function toClipboardText(valueRows: unknown[][]) {
+    return toDelimitedLines(valueRows, "\t");
+}
+
+// Spreadsheet apps keep the cell grid when pasting an HTML table
+export function toClipboardHtml(valueRows: unknown[][]) {
+    const body = valueRows
+        .map(
+            (values) =>
+                `<tr>${values
+                    .map((value) => `<td>${escapeHtml(toCellText(value))}</td>`)
+                    .join("")}</tr>`
+        )
+        .join("");
+    return `<table><tbody>${body}</tbody></table>`;
+}
+
+// Split TSV copied from spreadsheets, quoted fields may hold tabs and
+// line breaks
+export function parseClipboardText(text: string) {
+    const valueRows: string[][] = [];
+    let values: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (inQuotes) {
+            if (char !== '"') field += char;
+            else if (text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else inQuotes = false;
+        } else if (char === '"' && field === "") {
+            inQuotes = true;
+        } else if (char === "\t") {
+            values.push(field);
+            field = "";
+        } else if (char === "\r" || char === "\n") {
+            if (char === "\r" && text[index + 1] === "\n") index++;
+            values.push(field);
+            valueRows.push(values);
+            values = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    // Copied blocks usually end with a line break
+    if (field !== "" || values.length) {
+        values.push(field);
+        valueRows.push(values);
+    }
+    return valueRows;
+}
+
+export function inferCellEditor(value: unknown): CellEditorType {
+    if (typeof value === "number") return "number";
+    if (typeof value === "boolean") return "boolean";
+    return "text";
+}
+
+// Resolves to `undefined` when the text doesn't fit the editor
+export function coercePastedValue(
+    text: string,
+    editor: CellEditorType,
+    options: SelectOption[] = []
+): unknown {
+    const value = text.trim();
+    switch (editor) {
+        case "number": {
+            if (value === "") return null;
+            const number = Number(value.replace(/,/g, ""));
+            return isNaN(number) ? undefined : number;
+        }
+        case "boolean":
+            if (/^(true|yes|1|x)$/i.test(value)) return true;
+            if (/^(false|no|0|)$/i.test(value)) return false;
+            return undefined;
+        case "select": {
+            if (!options.length) return value;
+            const option = options.find(
+                (option) =>
+                    option.value.toLowerCase() === value.toLowerCase() ||
+                    option.label.toLowerCase() === value.toLowerCase()
+            );
+            return option?.value;
+        }
+        case "date":
+            if (value === "") return value;
+            return toTimestamp(value) === undefined ? undefined : value;
+        default:
+            return text;
+    }
+}
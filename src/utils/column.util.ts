@@ -0,0 +1,127 @@
+import type { CSSProperties } from "react";
+import type { Column, ColumnDef } from "@tanstack/react-table";
+
+import { pxToRem } from "@/utils/string.util";
+
+export function getColumnLabel<T>(column: Column<T, unknown>) {
+    return typeof column.columnDef.header === "string"
+        ? column.columnDef.header
+        : column.id;
+}
+
+// Resolves the id TanStack gives the column, `undefined` for columns it
+// would reject
+export function getColumnDefId<T>(columnDef: ColumnDef<T>) {
+    if (columnDef.id) return columnDef.id;
+    if ("accessorKey" in columnDef && columnDef.accessorKey) {
+        return String(columnDef.accessorKey).replace(/\./g, "_");
+    }
+    return typeof columnDef.header === "string" ? columnDef.header : undefined;
+}
+
+// Ids of the leaf columns, the ones nested in header groups included
+export function getLeafColumnDefIds<T>(columnDefs: ColumnDef<T>[]): string[] {
+    return columnDefs.flatMap((columnDef) => {
+        if ("columns" in columnDef && columnDef.columns) {
+            return getLeafColumnDefIds(columnDef.columns);
+        }
+        const columnId = getColumnDefId(columnDef);
+        return columnId ? [columnId] : [];
+    });
+}
+
+// Move a column before or after another one, `order` lists every leaf column
+export function moveColumnId(
+    order: string[],
+    columnId: string,
+    targetColumnId: string,
+    position: ColumnDropPosition
+) {
+    if (columnId === targetColumnId) return order;
+    const nextOrder = order.filter((id) => id !== columnId);
+    const targetIndex = nextOrder.indexOf(targetColumnId);
+    if (targetIndex === -1) return order;
+    nextOrder.splice(
+        position === "after" ? targetIndex + 1 : targetIndex,
+        0,
+        columnId
+    );
+    return nextOrder;
+}
+
+// Sticky offsets of a pinned column, left-pinned columns start after the
+// `leadingWidth` pixels of pinned selection and index columns
+export function getPinnedColumnStyle<T>(
+    column: Column<T, unknown>,
+    leadingWidth: number
+): CSSProperties {
+    const pinned = column.getIsPinned();
+    if (!pinned) return { position: "relative" };
+    return {
+        position: "sticky",
+        left:
+            pinned === "left"
+                ? `calc(${leadingWidth}px + ${pxToRem(
+                      column.getStart("left")
+                  )})`
+                : undefined,
+        right:
+            pinned === "right" ? pxToRem(column.getAfter("right")) : undefined,
+        zIndex: 1,
+    };
+}
+
+// TanStack's default `minSize`
+const DEFAULT_MIN_COLUMN_SIZE = 20;
+
+export function clampColumnSize<T>(column: Column<T, unknown>, size: number) {
+    const { minSize = DEFAULT_MIN_COLUMN_SIZE, maxSize = Infinity } =
+        column.columnDef;
+    return Math.min(Math.max(Math.round(size), minSize), maxSize);
+}
+
+// Column sizes are rendered in rem (see `pxToRem`), this converts them to
+// screen pixels
+export function getRootFontScale() {
+    const rootFontSize =
+        parseFloat(getComputedStyle(document.documentElement).fontSize) || 16;
+    return rootFontSize / 16;
+}
+
+// Natural width of the rendered `[data-column-id]` cells of each column, in
+// the unscaled pixels column sizes use (see `pxToRem`)
+export function measureColumnWidths(root: HTMLElement, columnIds: string[]) {
+    const cellsByColumn = columnIds.map((columnId) =>
+        Array.from(
+            root.querySelectorAll<HTMLElement>(
+                `[data-column-id="${CSS.escape(columnId)}"]`
+            )
+        )
+    );
+    const cells = cellsByColumn.flat();
+    const inlineStyles = cells.map((cell) => cell.style.cssText);
+
+    // Let every cell grow to its content for a single layout pass
+    cells.forEach((cell) => {
+        cell.style.width = "max-content";
+        cell.style.flexShrink = "0";
+    });
+    const widths = cellsByColumn.map((columnCells) =>
+        Math.max(
+            0,
+            ...columnCells.map((cell) => cell.getBoundingClientRect().width)
+        )
+    );
+    cells.forEach((cell, index) => {
+        cell.style.cssText = inlineStyles[index];
+    });
+
+    const scale = getRootFontScale();
+
+    return columnIds.reduce<Record<string, number>>((acc, columnId, index) => {
+        if (widths[index] > 0) {
+            acc[columnId] = Math.ceil(widths[index] / scale);
+        }
+        return acc;
+    }, {});
+}
@@ -0,0 +1,228 @@
+import type { Column, Row, Table } from "@tanstack/react-table";
+
+import { getColumnLabel } from "@/utils/column.util";
+import { isNil } from "@/utils/object.util";
+import { createXlsx } from "@/utils/xlsx.util";
+
+export const exportFormats: Record<
+    TableExportFormat,
+    { label: string; extension: string; mimeType: string }
+> = {
+    csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+    tsv: {
+        label: "TSV",
+        extension: "tsv",
+        mimeType: "text/tab-separated-values",
+    },
+    json: { label: "JSON", extension: "json", mimeType: "application/json" },
+    xlsx: {
+        label: "Excel (.xlsx)",
+        extension: "xlsx",
+        mimeType:
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    },
+};
+
+// Visible data columns in their current order
+export function getExportColumns<T>(table: Table<T>) {
+    return table
+        .getVisibleLeafColumns()
+        .filter((column) => column.accessorFn !== undefined);
+}
+
+export function toCellText(value: unknown) {
+    if (isNil(value)) return "";
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+// Text that spreadsheet apps would run as a formula
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+// Quote fields holding the delimiter, quotes, line breaks or edge spaces
+function escapeDelimitedField(value: string, delimiter: string) {
+    const needsQuotes =
+        value.includes(delimiter) ||
+        /["\r\n]/.test(value) ||
+        value !== value.trim();
+    return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// `escapeFormulas` prefixes text starting with =, +, -, @, a tab or a CR with
+// a quote so it opens as text, numbers are left alone
+export function toDelimitedLines(
+    valueRows: unknown[][],
+    delimiter: "," | "\t",
+    { escapeFormulas = false }: { escapeFormulas?: boolean } = {}
+) {
+    return valueRows
+        .map((values) =>
+            values
+                .map((value) => {
+                    const text = toCellText(value);
+                    return escapeDelimitedField(
+                        escapeFormulas &&
+                            typeof value === "string" &&
+                            formulaPrefix.test(text)
+                            ? `'${text}`
+                            : text,
+                        delimiter
+                    );
+                })
+                .join(delimiter)
+        )
+        .join("\r\n");
+}
+
+export function toDelimitedText<T>(
+    columns: Column<T, unknown>[],
+    rows: T[],
+    delimiter: "," | "\t"
+) {
+    return toDelimitedLines(
+        [
+            columns.map(getColumnLabel),
+            ...rows.map((row, index) =>
+                columns.map((column) => column.accessorFn?.(row, index))
+            ),
+        ],
+        delimiter,
+        { escapeFormulas: true }
+    );
+}
+
+export function toJsonText<T>(columns: Column<T, unknown>[], rows: T[]) {
+    return JSON.stringify(
+        rows.map((row, index) =>
+            Object.fromEntries(
+                columns.map((column) => [
+                    column.id,
+                    column.accessorFn?.(row, index) ?? null,
+                ])
+            )
+        ),
+        null,
+        2
+    );
+}
+
+export function createExportFile<T>(
+    format: TableExportFormat,
+    columns: Column<T, unknown>[],
+    rows: T[]
+) {
+    const { mimeType } = exportFormats[format];
+    switch (format) {
+        case "xlsx":
+            return new Blob(
+                [
+                    createXlsx([
+                        columns.map(getColumnLabel),
+                        ...rows.map((row, index) =>
+                            columns.map((column) =>
+                                column.accessorFn?.(row, index)
+                            )
+                        ),
+                    ]),
+                ],
+                { type: mimeType }
+            );
+        case "json":
+            return new Blob([toJsonText(columns, rows)], { type: mimeType });
+        default:
+            // The BOM lets spreadsheet apps detect UTF-8
+            return new Blob(
+                [
+                    "\uFEFF",
+                    toDelimitedText(
+                        columns,
+                        rows,
+                        format === "tsv" ? "\t" : ","
+                    ),
+                ],
+                { type: `${mimeType};charset=utf-8` }
+            );
+    }
+}
+
+export function downloadFile(file: Blob, fileName: string) {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke once the download has picked the file up
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// Stand-in row to run the table's filter and sorting functions on rows
+// that were never loaded into it, with the id the row model would give it
+function toDetachedRow<T>(table: Table<T>, original: T, index: number) {
+    return {
+        id: table.options.getRowId?.(original, index) ?? index.toString(),
+        index,
+        original,
+        getValue: (columnId: string) =>
+            table.getColumn(columnId)?.accessorFn?.(original, index),
+    } as unknown as Row<T>;
+}
+
+// Apply the table's client-side filters and sorting to streamed rows, the
+// result keeps each row's id from its fetched position
+export function applyClientQuery<T>(
+    table: Table<T>,
+    rows: T[],
+    { filter, sort }: { filter: boolean; sort: boolean }
+) {
+    const { columnFilters, globalFilter, sorting } = table.getState();
+    let detachedRows = rows.map((row, index) =>
+        toDetachedRow(table, row, index)
+    );
+
+    if (filter) {
+        const filters = columnFilters.flatMap(({ id, value }) => {
+            const filterFn = table.getColumn(id)?.getFilterFn();
+            return filterFn ? [{ id, value, filterFn }] : [];
+        });
+        const globalFilterFn = globalFilter
+            ? table.getGlobalFilterFn()
+            : undefined;
+        const globalColumns = table
+            .getAllLeafColumns()
+            .filter((column) => column.getCanGlobalFilter());
+        const addMeta = () => undefined;
+
+        detachedRows = detachedRows.filter(
+            (row) =>
+                filters.every(({ id, value, filterFn }) =>
+                    filterFn(row, id, value, addMeta)
+                ) &&
+                (!globalFilterFn ||
+                    globalColumns.some((column) =>
+                        globalFilterFn(row, column.id, globalFilter, addMeta)
+                    ))
+        );
+    }
+
+    if (sort && sorting.length) {
+        const sorters = sorting.flatMap(({ id, desc }) => {
+            const column = table.getColumn(id);
+            if (!column?.getCanSort()) return [];
+            const direction =
+                (desc ? -1 : 1) * (column.columnDef.invertSorting ? -1 : 1);
+            return [{ id, direction, sortingFn: column.getSortingFn() }];
+        });
+
+        detachedRows = [...detachedRows].sort((rowA, rowB) => {
+            for (const { id, direction, sortingFn } of sorters) {
+                const result = sortingFn(rowA, rowB, id);
+                if (result !== 0) return result * direction;
+            }
+            return rowA.index - rowB.index;
+        });
+    }
+
+    return detachedRows;
+}
@@ -0,0 +1,120 @@
+import type { ColumnDef, FilterFn } from "@tanstack/react-table";
+
+import { isNil } from "@/utils/object.util";
+import { normalizeText } from "@/utils/string.util";
+
+export function isFilterValueEmpty(value: unknown): boolean {
+    if (isNil(value)) return true;
+    if (typeof value === "string") return value.trim() === "";
+    if (Array.isArray(value)) return value.every(isFilterValueEmpty);
+    return false;
+}
+
+export function toTimestamp(value: unknown): number | undefined {
+    if (isNil(value) || value === "") return undefined;
+    const time =
+        value instanceof Date
+            ? value.getTime()
+            : new Date(value as string | number).getTime();
+    return isNaN(time) ? undefined : time;
+}
+
+// Filter values are kept serializable so they can be sent to `fetchFn` as-is
+export function textContainsFilter(cellValue: unknown, filterValue: string) {
+    if (isNil(cellValue)) return false;
+    return String(cellValue)
+        .toLowerCase()
+        .includes(filterValue.trim().toLowerCase());
+}
+
+export function numberRangeFilter(
+    cellValue: unknown,
+    [min, max]: NumberRangeFilterValue
+) {
+    const value = Number(cellValue);
+    if (isNil(cellValue) || isNaN(value)) return false;
+    if (!isNil(min) && value < min!) return false;
+    if (!isNil(max) && value > max!) return false;
+    return true;
+}
+
+export function enumIncludesFilter(
+    cellValue: unknown,
+    filterValue: EnumFilterValue
+) {
+    if (isNil(cellValue)) return false;
+    return filterValue.includes(String(cellValue));
+}
+
+export function dateRangeFilter(
+    cellValue: unknown,
+    [from, to]: DateRangeFilterValue
+) {
+    const value = toTimestamp(cellValue);
+    if (value === undefined) return false;
+
+    // Date inputs only carry the local day, so include the whole "to" day
+    const fromTime = toTimestamp(from && `${from}T00:00:00`);
+    const toTime = toTimestamp(to && `${to}T23:59:59.999`);
+    if (fromTime !== undefined && value < fromTime) return false;
+    if (toTime !== undefined && value > toTime) return false;
+    return true;
+}
+
+// Accent-insensitive match, so "Dang" finds "Đặng"
+export function normalizedTextIncludes(cellValue: unknown, searchTerm: string) {
+    if (isNil(cellValue)) return false;
+    return normalizeText(String(cellValue))
+        .toLowerCase()
+        .includes(normalizeText(searchTerm.trim()).toLowerCase());
+}
+
+export function getGlobalFilterFn<T>(): FilterFn<T> {
+    const filterFn: FilterFn<T> = (row, columnId, filterValue: string) =>
+        normalizedTextIncludes(row.getValue(columnId), filterValue);
+    filterFn.autoRemove = isFilterValueEmpty;
+
+    return filterFn;
+}
+
+export function getColumnFilterFn<T>(
+    variant: ColumnFilterVariant
+): FilterFn<T> {
+    const filterFn: FilterFn<T> = (row, columnId, filterValue) => {
+        const cellValue = row.getValue(columnId);
+        switch (variant) {
+            case "number":
+                return numberRangeFilter(cellValue, filterValue);
+            case "enum":
+                return enumIncludesFilter(cellValue, filterValue);
+            case "date":
+                return dateRangeFilter(cellValue, filterValue);
+            default:
+                return textContainsFilter(cellValue, filterValue);
+        }
+    };
+    filterFn.autoRemove = isFilterValueEmpty;
+
+    return filterFn;
+}
+
+// Give columns declaring a filter variant their filter function, the leaf
+// columns of header groups included
+export function withColumnFilterFns<T>(
+    columnDefs: ColumnDef<T>[]
+): ColumnDef<T>[] {
+    return columnDefs.map((columnDef) => {
+        if ("columns" in columnDef && columnDef.columns) {
+            return {
+                ...columnDef,
+                columns: withColumnFilterFns(columnDef.columns),
+            };
+        }
+        return columnDef.meta?.filterVariant && !columnDef.filterFn
+            ? {
+                  ...columnDef,
+                  filterFn: getColumnFilterFn<T>(columnDef.meta.filterVariant),
+              }
+            : columnDef;
+    });
+}
@@ -0,0 +1,53 @@
+import {
+    type AggregationFn,
+    type Row,
+    aggregationFns,
+} from "@tanstack/react-table";
+
+// Custom names for `aggregationFn`, next to TanStack's `sum`, `min`, `max`,
+// `count`, `unique`, ...
+export function getTableAggregationFns<T>(): Record<"avg", AggregationFn<T>> {
+    return { avg: aggregationFns.mean };
+}
+
+export function formatAggregatedValue(value: unknown) {
+    if (value == null) return "";
+    if (typeof value === "number") {
+        return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    }
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+}
+
+const footerAggregationFns: Record<
+    ColumnFooterAggregate,
+    AggregationFn<unknown>
+> = {
+    sum: aggregationFns.sum,
+    avg: aggregationFns.mean,
+    min: aggregationFns.min,
+    max: aggregationFns.max,
+    count: aggregationFns.count,
+    distinct: aggregationFns.uniqueCount,
+};
+
+export const footerAggregateLabels: Record<ColumnFooterAggregate, string> = {
+    sum: "Sum",
+    avg: "Avg",
+    min: "Min",
+    max: "Max",
+    count: "Count",
+    distinct: "Distinct",
+};
+
+export function getFooterAggregate<T>(
+    columnId: string,
+    aggregate: ColumnFooterAggregate,
+    rows: Row<T>[]
+) {
+    return footerAggregationFns[aggregate](
+        columnId,
+        rows as Row<unknown>[],
+        rows as Row<unknown>[]
+    );
+}
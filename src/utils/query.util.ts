@@ -0,0 +1,82 @@
+import type { InfiniteData } from "@tanstack/react-query";
+
+export const initialTablePageParam: TablePageParam = { index: 0 };
+
+// Page with the server cursor when given, otherwise fall back to offsets
+export function getNextTablePageParam<T>(
+    lastPage: PageData<T>,
+    allPages: PageData<T>[]
+): TablePageParam | undefined {
+    const { nextCursor, hasMore, totalRowCount } = lastPage.meta ?? {};
+    const index = allPages.length;
+
+    if (hasMore === false || nextCursor === null) return undefined;
+    if (nextCursor !== undefined) return { index, cursor: nextCursor };
+    if (hasMore) return { index };
+
+    const loadedRowCount = allPages.reduce(
+        (count, page) => count + page.data.length,
+        0
+    );
+    return loadedRowCount < (totalRowCount ?? 0) ? { index } : undefined;
+}
+
+// Map the rows of a cached infinite or single page query, `offset` being
+// the index of the page's first row in the table data
+export function mapCachedPages<T>(
+    cached: unknown,
+    mapPage: (rows: T[], offset: number, pageIndex: number) => T[]
+) {
+    if (!cached || typeof cached !== "object") return cached;
+
+    if ("pages" in cached) {
+        const infiniteData = cached as InfiniteData<PageData<T>>;
+        let offset = 0;
+        return {
+            ...infiniteData,
+            pages: infiniteData.pages.map((page, pageIndex) => {
+                const data = mapPage(page.data, offset, pageIndex);
+                offset += page.data.length;
+                return { ...page, data };
+            }),
+        };
+    }
+
+    const pageData = cached as PageData<T>;
+    return { ...pageData, data: mapPage(pageData.data, 0, 0) };
+}
+
+// Keep the known total in line with inserted or deleted rows
+export function adjustCachedTotal<T>(cached: unknown, delta: number) {
+    if (!cached || typeof cached !== "object" || !delta) return cached;
+
+    const adjustMeta = (page: PageData<T>) =>
+        page.meta?.totalRowCount === undefined
+            ? page
+            : {
+                  ...page,
+                  meta: {
+                      ...page.meta,
+                      totalRowCount: Math.max(
+                          0,
+                          page.meta.totalRowCount + delta
+                      ),
+                  },
+              };
+
+    if ("pages" in cached) {
+        const infiniteData = cached as InfiniteData<PageData<T>>;
+        return { ...infiniteData, pages: infiniteData.pages.map(adjustMeta) };
+    }
+
+    return adjustMeta(cached as PageData<T>);
+}
+
+// Adapt the legacy `fetchFn(start, size, sorting, ...)` signature to the
+// structured `TableQuery` contract
+export function fromPositionalFetchFn<T>(
+    fetchFn: PositionalTableFetchFn<T>
+): TableFetchFn<T> {
+    return ({ start, size, sorting, columnFilters, globalFilter }) =>
+        fetchFn(start, size, sorting, columnFilters, globalFilter);
+}
@@ -0,0 +1,129 @@
+function getParamNames(prefix: string) {
+    return {
+        sort: `${prefix}sort`,
+        search: `${prefix}q`,
+        columns: `${prefix}cols`,
+        filter: `${prefix}filter.`,
+    };
+}
+
+// Plain text stays readable, anything else (and text that looks like
+// JSON) is written as JSON
+function encodeFilterValue(value: unknown) {
+    return typeof value === "string" && !/^[[{"]/.test(value)
+        ? value
+        : JSON.stringify(value);
+}
+
+function decodeFilterValue(text: string): unknown {
+    if (!/^[[{"]/.test(text)) return text;
+    try {
+        const value = JSON.parse(text);
+        // Open range bounds are written as `null`
+        return Array.isArray(value)
+            ? value.map((item) => item ?? undefined)
+            : value;
+    } catch {
+        return text;
+    }
+}
+
+// Resolves to `null` when the URL holds no table params
+export function readTableUrlState(
+    search: string,
+    prefix: string,
+    columnIds: string[]
+): TableUrlState | null {
+    const params = new URLSearchParams(search);
+    const names = getParamNames(prefix);
+    const filterEntries = Array.from(params).filter(([key]) =>
+        key.startsWith(names.filter)
+    );
+    if (
+        !params.has(names.sort) &&
+        !params.has(names.search) &&
+        !params.has(names.columns) &&
+        !filterEntries.length
+    ) {
+        return null;
+    }
+
+    const sorting = (params.get(names.sort) ?? "")
+        .split(",")
+        .filter(Boolean)
+        .map((token) => ({
+            id: token.replace(/^-/, ""),
+            desc: token.startsWith("-"),
+        }))
+        .filter(({ id }) => columnIds.includes(id));
+    const columnFilters = filterEntries
+        .map(([key, value]) => ({
+            id: key.slice(names.filter.length),
+            value: decodeFilterValue(value),
+        }))
+        .filter(({ id }) => columnIds.includes(id));
+    const visibleColumnIds = params.get(names.columns)?.split(",");
+
+    return {
+        sorting,
+        columnFilters,
+        globalFilter: params.get(names.search) ?? "",
+        columnVisibility: visibleColumnIds
+            ? Object.fromEntries(
+                  columnIds.map((columnId) => [
+                      columnId,
+                      visibleColumnIds.includes(columnId),
+                  ])
+              )
+            : {},
+    };
+}
+
+// Replaces the table params of `search`, other params are kept
+export function toTableUrlSearch(
+    search: string,
+    prefix: string,
+    state: TableUrlState,
+    columnIds: string[]
+) {
+    const params = new URLSearchParams(search);
+    const names = getParamNames(prefix);
+    Array.from(params.keys())
+        .filter(
+            (key) =>
+                key === names.sort ||
+                key === names.search ||
+                key === names.columns ||
+                key.startsWith(names.filter)
+        )
+        .forEach((key) => params.delete(key));
+
+    if (state.sorting.length) {
+        params.set(
+            names.sort,
+            state.sorting
+                .map(({ id, desc }) => `${desc ? "-" : ""}${id}`)
+                .join(",")
+        );
+    }
+    state.columnFilters.forEach(({ id, value }) =>
+        params.set(`${names.filter}${id}`, encodeFilterValue(value))
+    );
+    if (state.globalFilter) params.set(names.search, state.globalFilter);
+    // Only written once a column is hidden
+    if (
+        columnIds.some((columnId) => state.columnVisibility[columnId] === false)
+    ) {
+        params.set(
+            names.columns,
+            columnIds
+                .filter(
+                    (columnId) => state.columnVisibility[columnId] !== false
+                )
+                .join(",")
+        );
+    }
+
+    const nextSearch = params.toString();
+    return nextSearch ? `?${nextSearch}` : "";
+}
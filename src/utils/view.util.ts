@@ -0,0 +1,80 @@
+function pickColumnKeys<V>(record: Record<string, V>, columnIds: string[]) {
+    return Object.fromEntries(
+        Object.entries(record).filter(([columnId]) =>
+            columnIds.includes(columnId)
+        )
+    );
+}
+
+// Drop whatever refers to columns that no longer exist
+export function sanitizeTableView(
+    state: TableViewState,
+    columnIds: string[]
+): TableViewState {
+    const hasColumn = ({ id }: { id: string }) => columnIds.includes(id);
+    const isColumnId = (columnId: string) => columnIds.includes(columnId);
+
+    return {
+        sorting: (state.sorting ?? []).filter(hasColumn),
+        columnFilters: (state.columnFilters ?? []).filter(hasColumn),
+        globalFilter:
+            typeof state.globalFilter === "string" ? state.globalFilter : "",
+        columnSizing: pickColumnKeys(state.columnSizing ?? {}, columnIds),
+        columnOrder: (state.columnOrder ?? []).filter(isColumnId),
+        columnPinning: {
+            left: (state.columnPinning?.left ?? []).filter(isColumnId),
+            right: (state.columnPinning?.right ?? []).filter(isColumnId),
+        },
+        columnVisibility: pickColumnKeys(
+            state.columnVisibility ?? {},
+            columnIds
+        ),
+    };
+}
+
+// Views saved under another version are discarded as a whole
+export function loadTableViews(
+    stateKey: string,
+    version: number,
+    columnIds: string[]
+): TableViewStorage | null {
+    try {
+        const stored = localStorage.getItem(stateKey);
+        if (!stored) return null;
+
+        const parsed: TableViewStorage = JSON.parse(stored);
+        if (parsed?.version !== version || !Array.isArray(parsed.views)) {
+            return null;
+        }
+
+        const views = parsed.views.map((view) => ({
+            ...view,
+            state: sanitizeTableView(view.state, columnIds),
+        }));
+        return {
+            version,
+            current:
+                parsed.current && sanitizeTableView(parsed.current, columnIds),
+            views,
+            activeViewId: views.some((view) => view.id === parsed.activeViewId)
+                ? parsed.activeViewId
+                : null,
+        };
+    } catch {
+        return null;
+    }
+}
+
+export function saveTableViews(stateKey: string, storage: TableViewStorage) {
+    try {
+        localStorage.setItem(stateKey, JSON.stringify(storage));
+    } catch {
+        console.warn("Failed to save table views.");
+    }
+}
+
+export function createTableViewId() {
+    return `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`;
+}
@@ -0,0 +1,169 @@
+const encoder = new TextEncoder();
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array) {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01, the earliest date a zip entry can carry
+const ZIP_DOS_DATE = (1 << 5) | 1;
+
+// Uncompressed zip archive, enough for the few XML parts of a workbook
+function createZip(files: { name: string; content: string }[]) {
+    const entries = files.map((file) => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        return { name, data, crc: crc32(data) };
+    });
+
+    const localSize = entries.reduce(
+        (size, entry) => size + 30 + entry.name.length + entry.data.length,
+        0
+    );
+    const centralSize = entries.reduce(
+        (size, entry) => size + 46 + entry.name.length,
+        0
+    );
+    const zip = new Uint8Array(new ArrayBuffer(localSize + centralSize + 22));
+    const view = new DataView(zip.buffer);
+
+    let offset = 0;
+    const localOffsets = entries.map((entry) => {
+        const headerOffset = offset;
+        view.setUint32(offset, 0x04034b50, true);
+        view.setUint16(offset + 4, 20, true);
+        // Names are UTF-8
+        view.setUint16(offset + 6, 0x0800, true);
+        view.setUint16(offset + 8, 0, true);
+        view.setUint16(offset + 10, 0, true);
+        view.setUint16(offset + 12, ZIP_DOS_DATE, true);
+        view.setUint32(offset + 14, entry.crc, true);
+        view.setUint32(offset + 18, entry.data.length, true);
+        view.setUint32(offset + 22, entry.data.length, true);
+        view.setUint16(offset + 26, entry.name.length, true);
+        view.setUint16(offset + 28, 0, true);
+        zip.set(entry.name, offset + 30);
+        zip.set(entry.data, offset + 30 + entry.name.length);
+        offset += 30 + entry.name.length + entry.data.length;
+        return headerOffset;
+    });
+
+    entries.forEach((entry, index) => {
+        view.setUint32(offset, 0x02014b50, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 6, 20, true);
+        view.setUint16(offset + 8, 0x0800, true);
+        view.setUint16(offset + 10, 0, true);
+        view.setUint16(offset + 12, 0, true);
+        view.setUint16(offset + 14, ZIP_DOS_DATE, true);
+        view.setUint32(offset + 16, entry.crc, true);
+        view.setUint32(offset + 20, entry.data.length, true);
+        view.setUint32(offset + 24, entry.data.length, true);
+        view.setUint16(offset + 28, entry.name.length, true);
+        view.setUint32(offset + 42, localOffsets[index], true);
+        zip.set(entry.name, offset + 46);
+        offset += 46 + entry.name.length;
+    });
+
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, centralSize, true);
+    view.setUint32(offset + 16, localSize, true);
+
+    return zip;
+}
+
+function escapeXml(value: string) {
+    return (
+        value
+            // Control characters are not allowed in XML 1.0
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+    );
+}
+
+function toColumnName(index: number) {
+    let name = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+function toCellXml(value: unknown, reference: string) {
+    if (value === undefined || value === null || value === "") return "";
+    if (typeof value === "number" && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+    }
+    if (typeof value === "boolean") {
+        return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+        text
+    )}</t></is></c>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Minimal single sheet workbook with inline strings, no styles
+export function createXlsx(rows: unknown[][], sheetName = "Sheet1") {
+    const sheetData = rows
+        .map(
+            (cells, rowIndex) =>
+                `<row r="${rowIndex + 1}">${cells
+                    .map((value, columnIndex) =>
+                        toCellXml(
+                            value,
+                            `${toColumnName(columnIndex)}${rowIndex + 1}`
+                        )
+                    )
+                    .join("")}</row>`
+        )
+        .join("");
+
+    return createZip([
+        {
+            name: "[Content_Types].xml",
+            content: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+        },
+        {
+            name: "_rels/.rels",
+            content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        },
+        {
+            name: "xl/workbook.xml",
+            content: `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(
+                sheetName
+            )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        },
+        {
+            name: "xl/_rels/workbook.xml.rels",
+            content: `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+        },
+        {
+            name: "xl/worksheets/sheet1.xml",
+            content: `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`,
+        },
+    ]);
+}